@@ -0,0 +1,92 @@
+/**
+ * Reanalyse a calibration recording offline
+ * Run with: npm run analyze -- <recording.wav> [<sidecar or manifest.json>...] [--verbose]
+ *
+ * Runs the recording through src/calibration/ClickAnalysis.ts (loaded through
+ * Vite), the same detection and matching a live session uses. The JSON is the
+ * sidecar downloaded with the recording, which carries the track manifests,
+ * players, timeline and mic latency (and, for a listening-position session,
+ * when each player's turn began), and defaults to the recording's name
+ * with .json. Click track manifests can be given instead, one per player.
+ *
+ * With a sidecar, the session's own offsets are printed alongside, so a
+ * change to the detector can be checked against past captures. --verbose
+ * keeps the detector's own logging.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+async function importSource(file) {
+  const { module } = await runnerImport(path.join(root, file), { root, configFile: false, logLevel: 'warn' });
+  return module;
+}
+
+const verbose = process.argv.includes('--verbose');
+const [wavPath, ...jsonPaths] = process.argv.slice(2).filter((arg) => !arg.startsWith('--'));
+if (!wavPath) {
+  console.error('Usage: npm run analyze -- <recording.wav> [<sidecar or manifest.json>...] [--verbose]');
+  process.exit(1);
+}
+
+const { analyzeRecording } = await importSource('src/calibration/ClickAnalysis.ts');
+const { ClickTrackGenerator } = await importSource('src/calibration/ClickTrackGenerator.ts');
+
+const wav = await fs.readFile(wavPath);
+const { channels, sampleRate } = ClickTrackGenerator.parseWavFile(
+  wav.buffer.slice(wav.byteOffset, wav.byteOffset + wav.byteLength)
+);
+
+if (jsonPaths.length === 0) {
+  jsonPaths.push(wavPath.replace(/\.wav$/i, '.json'));
+}
+const documents = await Promise.all(jsonPaths.map(async (file) => JSON.parse(await fs.readFile(file, 'utf8'))));
+
+// A sidecar holds its manifests; anything else is a manifest itself
+const sidecar = documents.find((document) => Array.isArray(document.manifests)) ?? null;
+const manifests = sidecar ? sidecar.manifests : documents;
+
+// The detector logs every chunk and click; unless asked for, only the summary is printed
+const log = console.log;
+if (!verbose) console.log = () => {};
+const analysis = analyzeRecording(channels[0], sampleRate, manifests, {
+  targets: sidecar?.targets,
+  startTime: sidecar?.startTime,
+  clickTrackStartTime: sidecar?.clickTrackStartTime,
+  // A listening-position session played the track on each player in turn
+  turns: sidecar?.turns?.map((turn) => turn.clickTrackStartTime ?? sidecar.startTime),
+  inputLatencyMs: sidecar?.results[0]?.inputLatencyMs,
+  // The distances the session used, whether entered or estimated
+  speakerDistances: sidecar
+    ? Object.fromEntries(
+        sidecar.results.filter((result) => result.distanceM !== undefined).map((result) => [result.playerId, result.distanceM])
+      )
+    : undefined,
+});
+console.log = log;
+
+console.log(`${path.basename(wavPath)}: ${(channels[0].length / sampleRate).toFixed(1)} s at ${sampleRate} Hz`);
+console.log(`Detections: ${analysis.detections.length}${sidecar ? ` (session: ${sidecar.detections.length})` : ''}`);
+if (sidecar?.turns) {
+  console.log(`Listening position: ${sidecar.config.listeningPosition}, ${sidecar.turns.length} turns`);
+}
+if (analysis.preambleTime !== null) {
+  console.log(`Preamble: ${analysis.preambleTime.toFixed(1)} ms`);
+}
+
+for (const result of analysis.results) {
+  const session = sidecar?.results.find(({ playerId }) => playerId === result.playerId);
+  const sessionOffset = session ? `, session ${session.offsetMs.toFixed(2)} ms` : '';
+  const interval = result.offsetIntervalMs
+    ? ` [${result.offsetIntervalMs[0].toFixed(2)}, ${result.offsetIntervalMs[1].toFixed(2)}]`
+    : '';
+  const rejected = result.rejectedClicks ? `, ${result.rejectedClicks} rejected` : '';
+  console.log(
+    `${result.playerName}: ${result.offsetMs.toFixed(2)} ms${interval}${sessionOffset} ` +
+      `(${result.detectedClicks}/${result.totalClicks} clicks${rejected}, confidence ${Math.round(result.confidence * 100)}%)`
+  );
+}
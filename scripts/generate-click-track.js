@@ -0,0 +1,87 @@
+/**
+ * Generate click track files and their timing manifests for calibration
+ * Run with: npm run generate:tracks -- [--codes <count>] [--ultrasonic]
+ *   [--rate <hz>] [--format pcm16|pcm24|pcm32|float32] [--channels <count>] [--flac]
+ *
+ * Tracks are rendered by src/calibration/ClickTrackGenerator.ts itself (loaded
+ * through Vite), from the same session defaults the app uses. Every track gets
+ * a <name>.json manifest of its click schedule, which the calibration session
+ * loads and checks against what it expects before analysing.
+ *
+ * calibration-ramp is the stepped-level tone the session plays first to set
+ * the player volume.
+ * --codes also writes calibration-code-<n> tracks for simultaneous calibration,
+ * one Kasami signature code track per player.
+ * --ultrasonic also writes calibration-clicks-ultrasonic and
+ * calibration-ramp-ultrasonic for quiet mode.
+ * --rate, --format and --channels write every track in that format instead,
+ * named e.g. calibration-clicks-44100-pcm24-2ch.wav, for testing players at
+ * their native format. --flac writes FLAC rather than WAV.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const root = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+async function importSource(file) {
+  const { module } = await runnerImport(path.join(root, file), { root, configFile: false, logLevel: 'warn' });
+  return module;
+}
+
+function getArg(name) {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const { ClickTrackGenerator, getSessionTrackConfig, getLevelRampTrackConfig, getKasamiCodeCount, DEFAULT_CLICK_TRACK_CONFIG } =
+  await importSource('src/calibration/ClickTrackGenerator.ts');
+const { DEFAULT_CALIBRATION_CONFIG } = await importSource('src/types/calibration.ts');
+
+const customFormat = ['--rate', '--format', '--channels'].some((name) => process.argv.includes(name));
+const fileType = process.argv.includes('--flac') ? 'flac' : 'wav';
+
+const sessionConfig = {
+  ...DEFAULT_CALIBRATION_CONFIG,
+  sampleRate: parseInt(getArg('--rate'), 10) || DEFAULT_CALIBRATION_CONFIG.sampleRate,
+};
+
+const formatConfig = {
+  sampleFormat: getArg('--format') || DEFAULT_CLICK_TRACK_CONFIG.sampleFormat,
+  channels: parseInt(getArg('--channels'), 10) || DEFAULT_CLICK_TRACK_CONFIG.channels,
+};
+
+async function writeTrack(name, trackConfig) {
+  const generator = new ClickTrackGenerator({ ...trackConfig, ...formatConfig });
+  const { sampleRate, sampleFormat, channels } = generator.getConfig();
+
+  const baseName = customFormat ? `${name}-${sampleRate}-${sampleFormat}-${channels}ch` : name;
+  const trackPath = path.join(root, 'public', `${baseName}.${fileType}`);
+  const manifestPath = path.join(root, 'public', `${baseName}.json`);
+
+  const blob = fileType === 'flac' ? generator.generateFlacBlob() : generator.generateWavBlob();
+  await fs.writeFile(trackPath, Buffer.from(await blob.arrayBuffer()));
+  await fs.writeFile(manifestPath, `${JSON.stringify(generator.getManifest(), null, 2)}\n`);
+
+  console.log(`Generated: ${trackPath}`);
+  console.log(`Size: ${(blob.size / 1024 / 1024).toFixed(2)} MB, manifest: ${manifestPath}`);
+}
+
+// Generate and save
+await writeTrack('calibration-clicks', getSessionTrackConfig(sessionConfig));
+await writeTrack('calibration-ramp', getLevelRampTrackConfig(sessionConfig));
+
+if (process.argv.includes('--ultrasonic')) {
+  await writeTrack('calibration-clicks-ultrasonic', getSessionTrackConfig(sessionConfig, 'near_ultrasonic'));
+  await writeTrack('calibration-ramp-ultrasonic', getLevelRampTrackConfig(sessionConfig, 'near_ultrasonic'));
+}
+
+if (process.argv.includes('--codes')) {
+  const maxCodes = getKasamiCodeCount(DEFAULT_CLICK_TRACK_CONFIG.mlsOrder);
+  const codeCount = Math.min(parseInt(getArg('--codes'), 10) || 8, maxCodes);
+  for (let codeIndex = 0; codeIndex < codeCount; codeIndex++) {
+    await writeTrack(`calibration-code-${codeIndex}`, getSessionTrackConfig(sessionConfig, 'audible', codeIndex));
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Acoustic Path
+ * Every measured offset includes the time sound takes to reach the phone
+ * from the speaker, about 2.9 ms per metre. The distance is entered per
+ * speaker, or estimated from how far the click level has dropped against a
+ * run at a known distance.
+ */
+
+import type { CalibrationResult, ClickDetection, DistanceReference, ProbeBand } from '../types';
+
+export interface SpeakerDistance {
+  distanceM: number;
+  source: 'entered' | 'estimated';
+}
+
+// Speed of sound in air at 20 °C, in m/s
+export const SPEED_OF_SOUND = 343;
+
+// Unclipped clicks with a level needed to put a level on the run
+const MIN_LEVEL_CLICKS = 3;
+
+// Estimates outside this range (m) are taken as the room or the setup having
+// changed since the reference, rather than the phone having moved that far
+const MIN_ESTIMATED_DISTANCE_M = 0.1;
+const MAX_ESTIMATED_DISTANCE_M = 15;
+
+/**
+ * Speaker-to-phone travel time in ms
+ */
+export function getAcousticDelayMs(distanceM: number): number {
+  return (distanceM / SPEED_OF_SOUND) * 1000;
+}
+
+/**
+ * Median received click level in dBFS, left out when too few clicks were
+ * measured. Clipped clicks arrived louder than the mic could show, so they
+ * don't count.
+ */
+export function measureClickLevelDb(detections: ClickDetection[]): number | null {
+  const levels = detections
+    .filter((detection) => !detection.clipped && detection.level !== undefined && detection.level > 0)
+    .map((detection) => 20 * Math.log10(detection.level!))
+    .sort((a, b) => a - b);
+  if (levels.length < MIN_LEVEL_CLICKS) return null;
+
+  const middle = Math.floor(levels.length / 2);
+  return levels.length % 2 === 0 ? (levels[middle - 1] + levels[middle]) / 2 : levels[middle];
+}
+
+/**
+ * Distance from the level drop against a reference run: level falls 6 dB
+ * per doubling of distance from a small source. Player volume is taken to
+ * scale amplitude linearly, as gain staging does. Reverberant rooms hold
+ * the level up further out, so this reads short there.
+ */
+export function estimateDistance(
+  reference: DistanceReference,
+  levelDb: number,
+  volume: number,
+  band: ProbeBand
+): number | null {
+  if (reference.band !== band || volume <= 0 || reference.volume <= 0) return null;
+
+  // The level this run would have had at the reference volume
+  const levelAtReferenceVolume = levelDb - 20 * Math.log10(volume / reference.volume);
+  const distanceM = reference.distanceM * Math.pow(10, (reference.levelDb - levelAtReferenceVolume) / 20);
+
+  if (distanceM < MIN_ESTIMATED_DISTANCE_M || distanceM > MAX_ESTIMATED_DISTANCE_M) {
+    console.warn(`[AcousticPath] Distance estimate of ${distanceM.toFixed(2)}m is out of range, not used`);
+    return null;
+  }
+  return distanceM;
+}
+
+/**
+ * Reference from a run whose distance was entered and whose click level and
+ * player volume are known, for estimating the distance of later runs
+ */
+export function createDistanceReference(result: CalibrationResult): DistanceReference | null {
+  const { distanceSource, distanceM, clickLevelDb, playerVolume } = result;
+  if (distanceSource !== 'entered' || distanceM === undefined || clickLevelDb === undefined || playerVolume === undefined) {
+    return null;
+  }
+
+  return {
+    playerId: result.playerId,
+    band: result.band ?? 'audible',
+    distanceM,
+    levelDb: clickLevelDb,
+    volume: playerVolume,
+    measuredAt: Date.now(),
+  };
+}
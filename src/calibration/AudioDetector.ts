@@ -1,53 +1,47 @@
 /**
  * Audio Detector
  * Captures microphone audio and detects click onsets
+ *
+ * Capture runs in an AudioWorklet, and every time the detector reports is
+ * read off the audio clock from the frame numbers the worklet stamps on its
+ * blocks, so main-thread scheduling delays don't reach the measurements.
+ * The detection itself is ClickDetector's, which needs no browser and runs
+ * the same on recordings.
  */
 
-import type { ClickDetection } from '../types';
+import { CAPTURE_BLOCK_SIZE, ClickDetector, DEFAULT_AUDIO_DETECTOR_CONFIG } from './ClickDetector';
+import type {
+  AudioDetectorConfig,
+  ClippingCallback,
+  DetectionCallback,
+  NoiseProfile,
+  PreambleCallback,
+  ReferenceClick,
+} from './ClickDetector';
+import type { CaptureBlock, CaptureProcessorOptions } from './captureProcessor';
+import captureProcessorUrl from './captureProcessor.ts?worker&url';
 
-export interface AudioDetectorConfig {
-  sampleRate: number;
-  fftSize: number;
-  onsetThreshold: number;       // RMS threshold for onset detection
-  frequencyTolerance: number;   // Hz tolerance for frequency matching
-  minClickGap: number;          // Minimum ms between valid clicks
-  expectedFrequencies: number[]; // Frequencies to look for
-}
-
-export const DEFAULT_AUDIO_DETECTOR_CONFIG: AudioDetectorConfig = {
-  sampleRate: 48000,
-  fftSize: 2048,
-  onsetThreshold: 0.01,         // Lowered for better sensitivity
-  frequencyTolerance: 100,      // Wider tolerance for frequency matching
-  minClickGap: 500,
-  // Frequencies optimized for smartphone mic sensitivity
-  // Sweet spots: 220, 500, 1000, 2500, 3500 Hz
-  // Avoid 4k+ where mics and speakers both struggle
-  expectedFrequencies: [500, 1000, 2000, 3000],
-};
+// Registered by captureProcessor.ts
+const CAPTURE_PROCESSOR_NAME = 'groupsync-capture';
 
-type DetectionCallback = (detection: ClickDetection) => void;
+type SampleCallback = (samples: Float32Array, timestamp: number) => void;
 
 export class AudioDetector {
   private config: AudioDetectorConfig;
+  private clickDetector: ClickDetector;
   private audioContext: AudioContext | null = null;
   private mediaStream: MediaStream | null = null;
   private analyser: AnalyserNode | null = null;
-  private scriptProcessor: ScriptProcessorNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private highPassFilter: BiquadFilterNode | null = null;
+  private captureNode: AudioWorkletNode | null = null;
   private isListening = false;
-  private detectionCallback: DetectionCallback | null = null;
-  private lastDetectionTime = 0;
-  private noiseFloor = 0;
-  private startTime = 0;
-
-  // Ring buffer for recent audio samples
-  private ringBuffer: Float32Array;
-  private ringBufferIndex = 0;
-  private readonly ringBufferSize = 48000 * 2; // 2 seconds of audio
+  private sampleCallback: SampleCallback | null = null;
+  private startFrame = 0; // Audio-clock frame when listening started, time 0 of every timestamp
 
   constructor(config: Partial<AudioDetectorConfig> = {}) {
     this.config = { ...DEFAULT_AUDIO_DETECTOR_CONFIG, ...config };
-    this.ringBuffer = new Float32Array(this.ringBufferSize);
+    this.clickDetector = new ClickDetector(this.config);
   }
 
   /**
@@ -72,6 +66,13 @@ export class AudioDetector {
       console.error('[AudioDetector] Failed to initialize:', error);
       throw new Error('Microphone access denied');
     }
+
+    try {
+      await this.audioContext.audioWorklet.addModule(captureProcessorUrl);
+    } catch (error) {
+      console.error('[AudioDetector] Failed to load capture worklet:', error);
+      throw new Error('Audio capture is not supported in this browser');
+    }
   }
 
   /**
@@ -82,48 +83,160 @@ export class AudioDetector {
       throw new Error('AudioDetector not initialized');
     }
 
-    this.detectionCallback = callback;
     this.isListening = true;
-    this.startTime = performance.now();
-    this.lastDetectionTime = 0;
+    this.startFrame = Math.round(this.audioContext.currentTime * this.config.sampleRate);
+    this.clickDetector.start(callback);
 
     // Create audio nodes
-    const source = this.audioContext.createMediaStreamSource(this.mediaStream);
+    this.source = this.audioContext.createMediaStreamSource(this.mediaStream);
 
     this.analyser = this.audioContext.createAnalyser();
     this.analyser.fftSize = this.config.fftSize;
     this.analyser.smoothingTimeConstant = 0;
 
-    // Use ScriptProcessor for sample access (deprecated but widely supported)
-    // Note: AudioWorklet would be better for production
-    this.scriptProcessor = this.audioContext.createScriptProcessor(2048, 1, 1);
-
-    source.connect(this.analyser);
-    this.analyser.connect(this.scriptProcessor);
-    this.scriptProcessor.connect(this.audioContext.destination);
-
-    // Capture noise floor during first second
-    this.captureNoiseFloor();
-
-    this.scriptProcessor.onaudioprocess = (event) => {
+    // Sample access through the capture worklet, which posts mono blocks
+    // stamped with their audio-clock frame; its output stays silent
+    const processorOptions: CaptureProcessorOptions = { blockSize: CAPTURE_BLOCK_SIZE };
+    this.captureNode = new AudioWorkletNode(this.audioContext, CAPTURE_PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      channelCount: 1,
+      channelCountMode: 'explicit',
+      processorOptions,
+    });
+
+    this.connectInput();
+    this.analyser.connect(this.captureNode);
+    this.captureNode.connect(this.audioContext.destination);
+
+    this.captureNode.port.onmessage = (event: MessageEvent<CaptureBlock>) => {
       if (!this.isListening) return;
 
-      const inputBuffer = event.inputBuffer.getChannelData(0);
-      this.processAudioChunk(inputBuffer);
+      this.processAudioChunk(event.data.samples, event.data.frame);
     };
 
     console.log('[AudioDetector] Started listening');
   }
 
+  /**
+   * Switch the detection band while listening, e.g. when falling back from
+   * near-ultrasonic to audible clicks. Background tracking starts over.
+   */
+  setBand(band: Pick<AudioDetectorConfig, 'expectedFrequencies' | 'highPassFrequency' | 'decodeClickIndex'>): void {
+    this.config = { ...this.config, ...band };
+    this.connectInput();
+    this.clickDetector.setBand(band);
+  }
+
+  /**
+   * Whether the capture path can represent a frequency at all
+   * (the mic may deliver a lower rate than the AudioContext asked for)
+   */
+  canCapture(frequency: number): boolean {
+    const contextRate = this.audioContext?.sampleRate ?? 0;
+    const trackRate = this.mediaStream?.getAudioTracks()[0]?.getSettings().sampleRate ?? contextRate;
+    return Math.min(contextRate, trackRate) / 2 > frequency;
+  }
+
+  /**
+   * Strongest level in dB between two frequencies (for band capability checks)
+   */
+  getBandLevel(lowFrequency: number, highFrequency: number): number {
+    if (!this.analyser) return -Infinity;
+
+    const frequencyData = new Float32Array(this.analyser.frequencyBinCount);
+    this.analyser.getFloatFrequencyData(frequencyData);
+
+    const binWidth = this.config.sampleRate / 2 / this.analyser.frequencyBinCount;
+    const lowBin = Math.max(0, Math.floor(lowFrequency / binWidth));
+    const highBin = Math.min(frequencyData.length - 1, Math.ceil(highFrequency / binWidth));
+
+    let level = -Infinity;
+    for (let i = lowBin; i <= highBin; i++) {
+      level = Math.max(level, frequencyData[i]);
+    }
+    return level;
+  }
+
+  /**
+   * Microphone in use, by device id and label
+   */
+  getInputDevice(): { id: string; label: string } | null {
+    const track = this.mediaStream?.getAudioTracks()[0];
+    if (!track) return null;
+    return { id: track.getSettings().deviceId ?? 'default', label: track.label };
+  }
+
+  /**
+   * Audio context the mic is captured in. Sounds played through it are
+   * scheduled on the same clock that times detections.
+   */
+  getAudioContext(): AudioContext | null {
+    return this.audioContext;
+  }
+
+  /**
+   * Elapsed time (ms) on the detection timeline at an audio context time (s)
+   */
+  getElapsedTimeAt(contextTime: number): number {
+    return this.getElapsedTime(contextTime * this.config.sampleRate);
+  }
+
+  /**
+   * Elapsed time (ms) on the detection timeline now
+   */
+  getCurrentTime(): number {
+    return this.audioContext ? this.getElapsedTimeAt(this.audioContext.currentTime) : 0;
+  }
+
+  /**
+   * Search the mic signal for the track's start-of-track preamble. The
+   * callback gets the elapsed time (ms) at which the preamble began, on the
+   * same timeline as click detections, and fires once. Call after
+   * startListening(), before the track plays.
+   */
+  listenForPreamble(reference: Float32Array, callback: PreambleCallback): void {
+    this.clickDetector.listenForPreamble(reference, callback);
+  }
+
+  /**
+   * Set the clicks the track plays, one per frequency. Each detection is then
+   * matched against the one nearest its frequency and `sampleOffset` set to
+   * the onset it finds: the direct sound's first arrival or the strongest
+   * arrival, as configured. Without references detections stay at chunk
+   * resolution.
+   */
+  setReferenceClicks(references: ReferenceClick[]): void {
+    this.clickDetector.setReferenceClicks(references);
+  }
+
+  /**
+   * Receive every captured chunk along with the elapsed time (ms) of its
+   * last sample on the audio clock, e.g. to keep a full recording for analysis
+   */
+  setSampleCallback(callback: SampleCallback | null): void {
+    this.sampleCallback = callback;
+  }
+
+  /**
+   * Be told about every chunk in which the mic clipped, e.g. to warn the
+   * user while it's happening
+   */
+  setClippingCallback(callback: ClippingCallback | null): void {
+    this.clickDetector.setClippingCallback(callback);
+  }
+
   /**
    * Stop listening
    */
   stopListening(): void {
     this.isListening = false;
+    this.clickDetector.finish();
 
-    if (this.scriptProcessor) {
-      this.scriptProcessor.disconnect();
-      this.scriptProcessor = null;
+    if (this.captureNode) {
+      this.captureNode.port.onmessage = null;
+      this.captureNode.disconnect();
+      this.captureNode = null;
     }
 
     if (this.analyser) {
@@ -131,6 +244,11 @@ export class AudioDetector {
       this.analyser = null;
     }
 
+    this.highPassFilter?.disconnect();
+    this.highPassFilter = null;
+    this.source?.disconnect();
+    this.source = null;
+
     console.log('[AudioDetector] Stopped listening');
   }
 
@@ -160,7 +278,20 @@ export class AudioDetector {
     const dataArray = new Float32Array(this.analyser.fftSize);
     this.analyser.getFloatTimeDomainData(dataArray);
 
-    return this.computeRMS(dataArray);
+    let sum = 0;
+    for (let i = 0; i < dataArray.length; i++) {
+      sum += dataArray[i] * dataArray[i];
+    }
+    return Math.sqrt(sum / dataArray.length);
+  }
+
+  /**
+   * Current background level, overall and at each expected frequency, or
+   * null before the first chunk has been measured. Follows changes in the
+   * room within a couple of seconds, e.g. to warn when it gets noisier mid-run.
+   */
+  getNoiseProfile(): NoiseProfile | null {
+    return this.clickDetector.getNoiseProfile();
   }
 
   /**
@@ -174,133 +305,52 @@ export class AudioDetector {
     return dataArray;
   }
 
-  // ==================== Private Methods ====================
-
-  private captureNoiseFloor(): void {
-    // Capture noise floor after 500ms
-    setTimeout(() => {
-      if (this.analyser) {
-        const dataArray = new Float32Array(this.analyser.fftSize);
-        this.analyser.getFloatTimeDomainData(dataArray);
-        this.noiseFloor = this.computeRMS(dataArray);
-        console.log('[AudioDetector] Noise floor:', this.noiseFloor.toFixed(4));
-      }
-    }, 500);
-  }
-
-  private debugLogCounter = 0;
-
-  private processAudioChunk(samples: Float32Array): void {
-    // Add to ring buffer
-    for (let i = 0; i < samples.length; i++) {
-      this.ringBuffer[this.ringBufferIndex] = samples[i];
-      this.ringBufferIndex = (this.ringBufferIndex + 1) % this.ringBufferSize;
-    }
-
-    // Compute RMS energy
-    const rms = this.computeRMS(samples);
-
-    // Check for onset (energy significantly above noise floor)
-    const threshold = Math.max(this.config.onsetThreshold, this.noiseFloor * 3);
-
-    // Debug logging every ~1 second (48000 samples / 2048 buffer = ~23 chunks/sec)
-    this.debugLogCounter++;
-    if (this.debugLogCounter % 23 === 0) {
-      const frequency = this.detectDominantFrequency();
-      console.log(`[AudioDetector] Level: ${rms.toFixed(4)}, threshold: ${threshold.toFixed(4)}, freq: ${frequency?.toFixed(0) ?? 'none'}Hz`);
-    }
-
-    if (rms > threshold) {
-      const now = performance.now();
-      const elapsed = now - this.startTime;
-
-      // Enforce minimum gap between detections
-      if (elapsed - this.lastDetectionTime < this.config.minClickGap) {
-        return;
-      }
-
-      // Verify frequency
-      const frequency = this.detectDominantFrequency();
-      console.log(`[AudioDetector] Onset detected! RMS: ${rms.toFixed(4)}, freq: ${frequency?.toFixed(0)}Hz, expected: ${this.config.expectedFrequencies}`);
-
-      if (frequency && this.isExpectedFrequency(frequency)) {
-        this.lastDetectionTime = elapsed;
-
-        const detection: ClickDetection = {
-          timestamp: elapsed,
-          frequency,
-          confidence: Math.min(1, rms / threshold),
-          sampleOffset: 0, // Will be calculated by OffsetCalculator
-        };
-
-        console.log('[AudioDetector] Click detected:', detection);
-        this.detectionCallback?.(detection);
-      } else {
-        console.log(`[AudioDetector] Frequency ${frequency?.toFixed(0)}Hz not in expected list, ignoring`);
-      }
-    }
-  }
-
-  private computeRMS(samples: Float32Array): number {
-    let sum = 0;
-    for (let i = 0; i < samples.length; i++) {
-      sum += samples[i] * samples[i];
-    }
-    return Math.sqrt(sum / samples.length);
-  }
-
-  private detectDominantFrequency(): number | null {
-    if (!this.analyser) return null;
-
-    const frequencyData = new Float32Array(this.analyser.frequencyBinCount);
-    this.analyser.getFloatFrequencyData(frequencyData);
-
-    // Find peak in frequency spectrum
-    let maxValue = -Infinity;
-    let maxIndex = 0;
-
-    for (let i = 0; i < frequencyData.length; i++) {
-      if (frequencyData[i] > maxValue) {
-        maxValue = frequencyData[i];
-        maxIndex = i;
-      }
-    }
-
-    // Convert bin index to frequency
-    const nyquist = this.config.sampleRate / 2;
-    const binWidth = nyquist / this.analyser.frequencyBinCount;
-    const frequency = maxIndex * binWidth;
-
-    return frequency;
+  /**
+   * Get recent audio samples for cross-correlation
+   */
+  getRecentSamples(durationMs: number): Float32Array {
+    return this.clickDetector.getRecentSamples(durationMs);
   }
 
-  private isExpectedFrequency(frequency: number): boolean {
-    const { expectedFrequencies, frequencyTolerance } = this.config;
+  // ==================== Private Methods ====================
 
-    for (const expected of expectedFrequencies) {
-      if (Math.abs(frequency - expected) <= frequencyTolerance) {
-        return true;
-      }
+  /**
+   * Route the mic to the analyser, through the high-pass when one is configured
+   */
+  private connectInput(): void {
+    if (!this.audioContext || !this.source || !this.analyser) return;
+
+    this.source.disconnect();
+    this.highPassFilter?.disconnect();
+    this.highPassFilter = null;
+
+    if (this.config.highPassFrequency > 0) {
+      this.highPassFilter = this.audioContext.createBiquadFilter();
+      this.highPassFilter.type = 'highpass';
+      this.highPassFilter.frequency.value = this.config.highPassFrequency;
+
+      this.source.connect(this.highPassFilter);
+      this.highPassFilter.connect(this.analyser);
+    } else {
+      this.source.connect(this.analyser);
     }
-
-    return false;
   }
 
   /**
-   * Get recent audio samples for cross-correlation
+   * Elapsed time in ms at an audio-clock frame
    */
-  getRecentSamples(durationMs: number): Float32Array {
-    const numSamples = Math.floor((durationMs / 1000) * this.config.sampleRate);
-    const samples = new Float32Array(numSamples);
+  private getElapsedTime(frame: number): number {
+    return ((frame - this.startFrame) * 1000) / this.config.sampleRate;
+  }
 
-    let readIndex = (this.ringBufferIndex - numSamples + this.ringBufferSize) % this.ringBufferSize;
+  private processAudioChunk(samples: Float32Array, frame: number): void {
+    // Everything in this chunk is timed from the capture time of its last sample
+    const elapsed = this.getElapsedTime(frame + samples.length);
 
-    for (let i = 0; i < numSamples; i++) {
-      samples[i] = this.ringBuffer[readIndex];
-      readIndex = (readIndex + 1) % this.ringBufferSize;
-    }
+    // The worklet posts a fresh block each time, so it can be handed out as-is
+    this.sampleCallback?.(samples, elapsed);
 
-    return samples;
+    this.clickDetector.process(samples, elapsed);
   }
 }
 
@@ -1,17 +1,37 @@
 /**
  * Calibration Session
- * Orchestrates the calibration process for a single speaker
+ * Orchestrates the calibration process for a single speaker, for several
+ * speakers at once when each plays its own Kasami signature code, or for
+ * each speaker in turn from a listening position
  *
  * Uses NTP-style clock synchronization with the Sendspin server for
  * accurate timing measurements. This allows us to calculate speaker
  * offset with millisecond precision.
  */
 
+import { estimateDistance, measureClickLevelDb } from './AcousticPath';
+import type { SpeakerDistance } from './AcousticPath';
 import { AudioDetector, createAudioDetector } from './AudioDetector';
-import { ClickTrackGenerator } from './ClickTrackGenerator';
+import { calculateResult, detectCodeClicks, matchDetections } from './ClickAnalysis';
+import { NEAR_ULTRASONIC_HIGH_PASS_HZ } from './ClickDetector';
+import type { ClippingReport, NoiseProfile } from './ClickDetector';
+import {
+  ClickTrackGenerator,
+  DEFAULT_CLICK_TRACK_CONFIG,
+  NEAR_ULTRASONIC_BAND,
+  NEAR_ULTRASONIC_FREQUENCIES,
+  getKasamiCodeCount,
+  getLevelRampTrackConfig,
+  getSessionTrackConfig,
+} from './ClickTrackGenerator';
+import type { ClickTrackManifest } from './ClickTrackGenerator';
+import { buildClickTrackUrl, getManifestUrl } from './ClickTrackRoute';
+import { analyzeLevelRamp } from './GainStaging';
+import type { LevelRampAnalysis } from './GainStaging';
+import { MicRecording } from './MicRecording';
 import { OffsetCalculator } from './OffsetCalculator';
 import { SendspinSyncClient, createSendspinSyncClient } from './SendspinSyncClient';
-import type { ClickDetection, CalibrationResult, CalibrationConfig } from '../types';
+import type { ClickDetection, CalibrationResult, CalibrationConfig, ProbeBand } from '../types';
 import { DEFAULT_CALIBRATION_CONFIG } from '../types';
 import { maClient } from '../ma-client';
 
@@ -19,9 +39,15 @@ export type CalibrationEventType =
   | 'started'
   | 'clock_syncing'
   | 'clock_synced'
+  | 'band_check'
+  | 'turn_started'
+  | 'gain_staging'
   | 'playback_started'
+  | 'preamble_detected'
   | 'click_detected'
+  | 'clipping'
   | 'progress'
+  | 'player_result'
   | 'completed'
   | 'error';
 
@@ -30,8 +56,73 @@ export interface CalibrationEvent {
   data?: unknown;
 }
 
+export interface CalibrationTarget {
+  playerId: string;
+  playerName: string;
+}
+
+export interface ClockSyncReport {
+  success: boolean;
+  error?: string;
+  offsetMs: number | null;
+  uncertaintyMs: number | null;
+  measurements: number;
+}
+
+/**
+ * One player's turn in a listening-position session, on the session's
+ * detector timeline
+ */
+export interface ListeningTurn {
+  playerId: string;
+  clickTrackStartTime: number | null; // Detector time (ms) the player's click track was started
+  preambleTime: number | null;
+  playbackStartServerTime: number | null; // Server μs, null without clock sync
+}
+
+/**
+ * JSON sidecar for a session recording: everything needed to redo the
+ * analysis offline, and what the session made of it at the time
+ */
+export interface SessionRecordingSidecar {
+  version: number;
+  recordedAt: string; // ISO time the session started
+  sampleRate: number;
+  startTime: number; // Detector time (ms) of the recording's first sample
+  duration: number; // ms
+  targets: CalibrationTarget[];
+  band: ProbeBand;
+  config: CalibrationConfig;
+  manifests: ClickTrackManifest[]; // One per target, in target order
+  preambleTime: number | null;
+  clickTrackStartTime: number | null; // Detector time (ms) the click track was started, where analysis begins
+  clockSync: ClockSyncReport | null;
+  playbackStartServerTime: number | null; // Server μs, null without clock sync
+  turns: ListeningTurn[] | null; // Listening-position sessions only, the top-level times are then the last turn's
+  detections: ClickDetection[];
+  results: CalibrationResult[];
+}
+
+export const SESSION_RECORDING_VERSION = 2;
+
 type CalibrationEventCallback = (event: CalibrationEvent) => void;
 
+// Near-ultrasonic capability check: the band must rise this far above its
+// own background within the first seconds of playback
+const BAND_CHECK_DURATION_MS = 3000;
+const BAND_CHECK_POLL_MS = 50;
+const BAND_CHECK_MIN_SNR_DB = 15;
+
+// Gain staging: measure-and-adjust passes, the error accepted without another
+// pass, the quietest volume it will set, and how long to wait for the ramp
+const GAIN_STAGING_PASSES = 2;
+const GAIN_STAGING_TOLERANCE_DB = 3;
+const GAIN_STAGING_MIN_VOLUME = 5;
+const GAIN_STAGING_START_TIMEOUT_MS = 8000;
+
+// Clipping events go out at most this often while the mic keeps overloading
+const CLIPPING_EVENT_INTERVAL_MS = 500;
+
 export class CalibrationSession {
   private audioDetector: AudioDetector | null = null;
   private clickTrackGenerator: ClickTrackGenerator;
@@ -39,14 +130,29 @@ export class CalibrationSession {
   private syncClient: SendspinSyncClient | null = null;
   private config: CalibrationConfig;
 
-  private playerId: string;
-  private playerName: string;
+  private targets: CalibrationTarget[];
+  private simultaneous: boolean;
+  private targetIndex = 0; // Target whose track plays; a listening-position session moves through them in turn
+  private turns: ListeningTurn[] = []; // Finished turns of a listening-position session
+  private turnDetections: ClickDetection[] = []; // Detections of the finished turns
+  private band: ProbeBand;
+  private codeGenerators: ClickTrackGenerator[] = [];
   private serverUrl: string;
   private detections: ClickDetection[] = [];
+  private preambleTime: number | null = null; // When the track's preamble was heard (detector timeline, ms)
+  private clickTrackStartTime: number | null = null; // When the click track was started (detector timeline, ms)
+  private inputLatencyMs = 0; // Measured latency of the mic in use, taken off every offset
+  private playerVolume: number | null = null; // Volume the clicks play at, null if unknown or not played by the player
+  private lastClippingTime = -Infinity; // Detector time of the last clipping event
   private expectedClicks: { time: number; frequency: number }[] = [];
   private eventCallback: CalibrationEventCallback | null = null;
   private isRunning = false;
 
+  // Gain staging - detections are ignored while the level ramp plays, and the
+  // player volumes found before staging are put back when the session ends
+  private stagingGain = false;
+  private originalVolumes = new Map<string, number>();
+
   // Audio playback
   private audioContext: AudioContext | null = null;
   private audioSource: AudioBufferSourceNode | null = null;
@@ -55,27 +161,50 @@ export class CalibrationSession {
   private playbackStartServerTime: number = 0;
   private useClockSync: boolean = true;
 
+  // Mic audio kept for analysis: the whole run in simultaneous mode, which
+  // is analysed once playback ends, or the level ramp while staging gain
+  private recording: MicRecording;
+
+  // Whole-session capture for export, when `recordSession` is set, along
+  // with what the session made of it
+  private sessionRecording: MicRecording | null = null;
+  private startedAt = 0;
+  private clockSync: ClockSyncReport | null = null;
+  private results: CalibrationResult[] = [];
+
   constructor(
-    playerId: string,
-    playerName: string,
+    targets: CalibrationTarget[],
     serverUrl: string,
     config?: Partial<CalibrationConfig>
   ) {
-    this.playerId = playerId;
-    this.playerName = playerName;
+    if (targets.length === 0) {
+      throw new Error('No players to calibrate');
+    }
+
+    this.targets = targets;
     this.serverUrl = serverUrl;
     this.config = { ...DEFAULT_CALIBRATION_CONFIG, ...config };
+    this.simultaneous = targets.length > 1 && this.config.listeningPosition === null;
 
-    this.clickTrackGenerator = new ClickTrackGenerator({
-      sampleRate: this.config.sampleRate,
-      frequencies: this.config.frequencies,
-      clickDuration: 50, // 50ms for reliable detection
-      clickInterval: this.config.clickIntervalMs,
-      totalDuration: this.config.totalClicks,
-    });
+    // Codes are broadband, so simultaneous sessions always use the audible band
+    this.band = this.config.nearUltrasonic && !this.simultaneous ? 'near_ultrasonic' : 'audible';
+
+    this.clickTrackGenerator = this.createClickTrackGenerator();
+
+    if (this.simultaneous) {
+      const codeCount = getKasamiCodeCount(DEFAULT_CLICK_TRACK_CONFIG.mlsOrder);
+      if (targets.length > codeCount) {
+        throw new Error(`Simultaneous calibration supports at most ${codeCount} players`);
+      }
+
+      this.codeGenerators = targets.map(
+        (_, codeIndex) => new ClickTrackGenerator(getSessionTrackConfig(this.config, 'audible', codeIndex))
+      );
+    }
 
     this.offsetCalculator = new OffsetCalculator(this.config.sampleRate);
     this.expectedClicks = this.clickTrackGenerator.getClickTimestamps();
+    this.recording = new MicRecording(this.config.sampleRate);
   }
 
   /**
@@ -88,6 +217,16 @@ export class CalibrationSession {
 
     this.eventCallback = callback;
     this.detections = [];
+    this.targetIndex = 0;
+    this.turns = [];
+    this.turnDetections = [];
+    this.recording.clear();
+    this.sessionRecording = this.config.recordSession ? new MicRecording(this.config.sampleRate) : null;
+    this.startedAt = Date.now();
+    this.clockSync = null;
+    this.clickTrackStartTime = null;
+    this.results = [];
+    this.lastClippingTime = -Infinity;
     this.isRunning = true;
 
     try {
@@ -118,15 +257,12 @@ export class CalibrationSession {
 
           // Emit non-converged status
           const clockStatus = this.syncClient.clock.getStatus();
-          this.emit({
-            type: 'clock_synced',
-            data: {
-              success: false,
-              error: 'Clock sync did not converge in time',
-              offsetMs: clockStatus.offsetMicroseconds / 1000,
-              uncertaintyMs: clockStatus.offsetUncertaintyMicroseconds / 1000,
-              measurements: clockStatus.measurementCount,
-            },
+          this.reportClockSync({
+            success: false,
+            error: 'Clock sync did not converge in time',
+            offsetMs: clockStatus.offsetMicroseconds / 1000,
+            uncertaintyMs: clockStatus.offsetUncertaintyMicroseconds / 1000,
+            measurements: clockStatus.measurementCount,
           });
         }
       } catch (syncError) {
@@ -136,109 +272,73 @@ export class CalibrationSession {
         this.useClockSync = false;
 
         // Emit failure with error message
-        this.emit({
-          type: 'clock_synced',
-          data: {
-            success: false,
-            error: errorMsg,
-            offsetMs: null,
-            uncertaintyMs: null,
-            measurements: 0,
-          },
+        this.reportClockSync({
+          success: false,
+          error: errorMsg,
+          offsetMs: null,
+          uncertaintyMs: null,
+          measurements: 0,
         });
       }
 
       // Only emit success status here (failure is emitted in catch block)
       if (this.useClockSync) {
         const clockStatus = this.syncClient?.clock.getStatus();
-        this.emit({
-          type: 'clock_synced',
-          data: {
-            success: true,
-            offsetMs: clockStatus ? clockStatus.offsetMicroseconds / 1000 : null,
-            uncertaintyMs: clockStatus?.offsetUncertaintyMicroseconds
-              ? clockStatus.offsetUncertaintyMicroseconds / 1000
-              : null,
-            measurements: clockStatus?.measurementCount ?? 0,
-          },
+        this.reportClockSync({
+          success: true,
+          offsetMs: clockStatus ? clockStatus.offsetMicroseconds / 1000 : null,
+          uncertaintyMs: clockStatus?.offsetUncertaintyMicroseconds
+            ? clockStatus.offsetUncertaintyMicroseconds / 1000
+            : null,
+          measurements: clockStatus?.measurementCount ?? 0,
         });
       }
 
       // Step 2: Initialize audio detector (microphone)
+      const nearUltrasonic = this.band === 'near_ultrasonic';
       this.audioDetector = createAudioDetector({
         sampleRate: this.config.sampleRate,
-        expectedFrequencies: this.config.frequencies,
+        expectedFrequencies: nearUltrasonic ? NEAR_ULTRASONIC_FREQUENCIES : this.config.frequencies,
+        decodeClickIndex: this.config.encodeClickIndex && !this.simultaneous && !nearUltrasonic,
+        highPassFrequency: nearUltrasonic ? NEAR_ULTRASONIC_HIGH_PASS_HZ : 0,
       });
 
       await this.audioDetector.initialize();
+      this.setReferenceClicks();
+      this.inputLatencyMs = this.getInputLatency();
 
       // Create audio context for playback
       this.audioContext = new AudioContext({ sampleRate: this.config.sampleRate });
 
       this.emit({ type: 'started' });
 
+      // Simultaneous mode keeps the raw recording, as live click detection
+      // can't tell the players' codes apart; so does the level ramp
+      this.audioDetector.setSampleCallback((samples, timestamp) => {
+        this.sessionRecording?.append(samples, timestamp);
+        if (this.simultaneous || this.stagingGain) {
+          this.recording.append(samples, timestamp);
+        }
+      });
+
+      this.audioDetector.setClippingCallback((report) => this.reportClipping(report));
+
       // Start listening for clicks via microphone
       this.audioDetector.startListening((detection) => {
-        this.handleDetection(detection);
+        if (!this.simultaneous && !this.stagingGain) {
+          this.handleDetection(detection);
+        }
       });
 
       // Small delay to ensure mic is ready, then start playing click track
       await new Promise((resolve) => setTimeout(resolve, 500));
 
-      // Step 3: Play click track through Music Assistant
-      console.log('[CalibrationSession] Starting click track playback via Music Assistant...');
-
-      // Build the URL to the click track served by this app
-      // NOTE: This URL must be accessible from the Music Assistant server!
-      const clickTrackUrl = `${window.location.origin}/calibration-clicks.wav`;
-      console.log('[CalibrationSession] Click track URL:', clickTrackUrl);
-
-      let playbackMethod: 'music_assistant' | 'local' = 'music_assistant';
-
-      // Record the server time when we start playback (for offset calculation)
-      if (this.useClockSync && this.syncClient) {
-        this.playbackStartServerTime = this.syncClient.clock.clientToServerTime(
-          this.syncClient.clock.getCurrentTimeMicroseconds()
-        );
-        console.log(`[CalibrationSession] Playback start server time: ${this.playbackStartServerTime}μs`);
-      }
-
-      try {
-        // Tell Music Assistant to play the click track on the selected player
-        // 'replace' clears the queue and plays immediately
-        await maClient.playMedia(this.playerId, clickTrackUrl, 'replace');
-        console.log('[CalibrationSession] Click track command sent to', this.playerName);
-      } catch (playError) {
-        console.error('[CalibrationSession] Failed to play via MA, falling back to local playback:', playError);
-        playbackMethod = 'local';
-
-        // Fallback to local playback (phone speaker)
-        const buffer = this.clickTrackGenerator.generateAudioBuffer(this.audioContext!);
-        this.audioSource = this.audioContext!.createBufferSource();
-        this.audioSource.buffer = buffer;
-        this.audioSource.connect(this.audioContext!.destination);
-        this.audioSource.start();
-
-        console.log('[CalibrationSession] Fallback: Click track playing through phone speaker');
+      // The mic path must be able to carry the near-ultrasonic band at all
+      if (this.band === 'near_ultrasonic' && !this.audioDetector.canCapture(NEAR_ULTRASONIC_BAND[1])) {
+        this.fallBackToAudible('Microphone sample rate too low for 17-20 kHz', null);
       }
 
-      this.emit({
-        type: 'playback_started',
-        data: {
-          method: playbackMethod,
-          url: clickTrackUrl,
-          clockSynced: this.useClockSync,
-        },
-      });
-
-      // Auto-stop after calibration duration
-      // Add extra buffer for MA playback startup latency
-      const totalDurationMs = this.config.totalClicks * this.config.clickIntervalMs + 5000;
-      setTimeout(() => {
-        if (this.isRunning) {
-          this.complete();
-        }
-      }, totalDurationMs);
+      await this.playTarget();
     } catch (error) {
       this.emit({
         type: 'error',
@@ -259,10 +359,10 @@ export class CalibrationSession {
   }
 
   /**
-   * Get current progress
+   * Get current progress, of the current turn in a listening-position session
    */
   getProgress(): { detected: number; total: number; percentage: number } {
-    const total = this.config.totalClicks;
+    const total = this.config.totalClicks * (this.simultaneous ? this.targets.length : 1);
     const detected = this.detections.length;
     return {
       detected,
@@ -278,6 +378,13 @@ export class CalibrationSession {
     return this.audioDetector?.getCurrentLevel() ?? 0;
   }
 
+  /**
+   * Get the mic's current background level (for noise warnings)
+   */
+  getNoiseProfile(): NoiseProfile | null {
+    return this.audioDetector?.getNoiseProfile() ?? null;
+  }
+
   /**
    * Get frequency data (for visualization)
    */
@@ -285,6 +392,36 @@ export class CalibrationSession {
     return this.audioDetector?.getFrequencyData() ?? new Uint8Array(0);
   }
 
+  /**
+   * The whole mic capture as a WAV, with its sidecar. Null unless the
+   * session was started with `recordSession`.
+   */
+  getRecording(): { wav: Blob; sidecar: SessionRecordingSidecar } | null {
+    const recording = this.sessionRecording;
+    if (!recording) return null;
+
+    const sidecar: SessionRecordingSidecar = {
+      version: SESSION_RECORDING_VERSION,
+      recordedAt: new Date(this.startedAt).toISOString(),
+      sampleRate: this.config.sampleRate,
+      startTime: recording.getStartTime(),
+      duration: recording.getDuration(),
+      targets: this.targets,
+      band: this.band,
+      config: this.config,
+      manifests: this.targets.map((_, index) => this.getTrackGenerator(index).getManifest()),
+      preambleTime: this.preambleTime,
+      clickTrackStartTime: this.clickTrackStartTime,
+      clockSync: this.clockSync,
+      playbackStartServerTime: this.useClockSync ? this.playbackStartServerTime : null,
+      turns: this.config.listeningPosition !== null ? this.turns : null,
+      detections: [...this.turnDetections, ...this.detections],
+      results: this.results,
+    };
+
+    return { wav: recording.toWavBlob(), sidecar };
+  }
+
   // ==================== Private Methods ====================
 
   private handleDetection(detection: ClickDetection): void {
@@ -306,27 +443,49 @@ export class CalibrationSession {
   private complete(): void {
     if (!this.isRunning) return;
 
-    this.isRunning = false;
-    this.audioDetector?.stopListening();
+    // A listening-position session keeps the mic open until every target has played
+    const listening = this.config.listeningPosition !== null;
+    const lastTurn = !listening || this.targetIndex === this.targets.length - 1;
+    if (lastTurn) {
+      this.isRunning = false;
+      this.audioDetector?.stopListening();
+    }
 
-    // Match detections to expected clicks
-    const matchedDetections = this.matchDetections();
+    if (this.simultaneous) {
+      this.completeSimultaneous();
+      return;
+    }
 
-    // Calculate average offset
-    const { offsetMs, confidence, stdDev } = this.offsetCalculator.calculateAverageOffset(
-      matchedDetections
-    );
+    // Match detections to expected clicks
+    const matched = matchDetections(this.detections, this.expectedClicks, {
+      sampleRate: this.config.sampleRate,
+      clickIntervalMs: this.config.clickIntervalMs,
+      preambleTime: this.preambleTime,
+    });
 
-    const result: CalibrationResult = {
-      playerId: this.playerId,
-      playerName: this.playerName,
-      offsetMs,
-      confidence,
+    // From a listening position the travel time is part of what's being
+    // lined up, so it stays in the offset. Each turn is timed from its own
+    // track start, so the players' offsets compare.
+    const target = this.getTarget();
+    const clickLevelDb = measureClickLevelDb(this.detections);
+    const result = calculateResult(this.offsetCalculator, target, matched, {
       detectedClicks: this.detections.length,
       totalClicks: this.config.totalClicks,
-    };
+      inputLatencyMs: this.inputLatencyMs,
+      band: this.band,
+      distance: listening ? null : this.getSpeakerDistance(target, clickLevelDb),
+      clickLevelDb,
+      playerVolume: this.playerVolume,
+      referencePosition: this.config.listeningPosition,
+      timeOrigin: listening ? (this.clickTrackStartTime ?? 0) : 0,
+    });
+
+    if (listening) {
+      this.completeTurn(result, lastTurn);
+      return;
+    }
 
-    console.log('[CalibrationSession] Complete:', result, 'stdDev:', stdDev);
+    this.results = [result];
 
     this.emit({
       type: 'completed',
@@ -336,70 +495,574 @@ export class CalibrationSession {
     this.cleanup();
   }
 
-  private matchDetections(): Array<{ expectedTime: number; detectedTime: number }> {
-    const matched: Array<{ expectedTime: number; detectedTime: number }> = [];
-    const usedExpected = new Set<number>();
-    const frequencyTolerance = 150; // Hz tolerance for matching
-
-    // First pass: estimate the overall offset from the first few detections
-    // This handles the case where MA playback starts with some delay
-    let estimatedOffset = 0;
-    if (this.detections.length > 0) {
-      // Find first detection that matches a frequency
-      for (const detection of this.detections.slice(0, 5)) {
-        for (const expected of this.expectedClicks) {
-          if (Math.abs(detection.frequency - expected.frequency) <= frequencyTolerance) {
-            // This detection likely corresponds to this expected click
-            estimatedOffset = detection.timestamp - expected.time;
-            console.log(`[CalibrationSession] Estimated playback offset: ${estimatedOffset.toFixed(0)}ms`);
-            break;
-          }
-        }
-        if (estimatedOffset !== 0) break;
+  /**
+   * Put a listening-position turn's result out and start the next target
+   * playing, or finish the session after the last
+   */
+  private completeTurn(result: CalibrationResult, lastTurn: boolean): void {
+    this.results.push(result);
+    this.turns.push({
+      playerId: result.playerId,
+      clickTrackStartTime: this.clickTrackStartTime,
+      preambleTime: this.preambleTime,
+      playbackStartServerTime: this.useClockSync ? this.playbackStartServerTime : null,
+    });
+    this.turnDetections.push(...this.detections);
+    this.detections = [];
+
+    this.emit({
+      type: 'player_result',
+      data: result,
+    });
+
+    if (lastTurn) {
+      this.emit({
+        type: 'completed',
+        data: this.results,
+      });
+      this.cleanup();
+      return;
+    }
+
+    this.targetIndex++;
+    this.playTarget().catch((error) => {
+      this.emit({
+        type: 'error',
+        data: error instanceof Error ? error.message : 'Calibration failed',
+      });
+      this.cleanup();
+    });
+  }
+
+  /**
+   * Separate every player's code from the shared recording and compute
+   * each player's offset from its own arrivals
+   */
+  private completeSimultaneous(): void {
+    const recording = this.recording.getSamples();
+    const recordingStartTime = this.recording.getStartTime();
+    this.recording.clear();
+    const { sampleRate, clickIntervalMs, totalClicks } = this.config;
+    const results: CalibrationResult[] = [];
+
+    this.targets.forEach((target, index) => {
+      const { detections, matched } = detectCodeClicks(
+        this.offsetCalculator,
+        this.codeGenerators[index].generateReferenceClick(0),
+        recording,
+        { sampleRate, clickIntervalMs, startTime: recordingStartTime, playerId: target.playerId },
+        this.expectedClicks
+      );
+      detections.forEach((detection) => this.handleDetection(detection));
+
+      console.log(`[CalibrationSession] ${target.playerName}: code ${index}, ${detections.length} arrivals`);
+      const result = calculateResult(this.offsetCalculator, target, matched, {
+        detectedClicks: detections.length,
+        totalClicks,
+        inputLatencyMs: this.inputLatencyMs,
+        distance: this.getSpeakerDistance(target, null),
+      });
+      results.push(result);
+
+      this.emit({
+        type: 'player_result',
+        data: result,
+      });
+    });
+
+    this.results = results;
+    this.emit({
+      type: 'completed',
+      data: results,
+    });
+
+    this.cleanup();
+  }
+
+  /**
+   * Level, play and time the track on the current target, or the code
+   * tracks on every target at once, and complete once it has played
+   */
+  private async playTarget(): Promise<void> {
+    if (this.config.listeningPosition !== null) {
+      this.emit({
+        type: 'turn_started',
+        data: { target: this.getTarget(), index: this.targetIndex, count: this.targets.length },
+      });
+    }
+
+    // Step 3: Set the player volume from a level ramp, so clicks reach the
+    // mic well above the noise without clipping it
+    if (this.config.gainStaging && !this.simultaneous) {
+      await this.stageGain();
+      if (!this.isRunning) return;
+    }
+
+    // Distance estimates from the click level need the volume it played at
+    this.playerVolume = this.simultaneous ? null : await this.readPlayerVolume();
+
+    // Step 4: Play click track through Music Assistant
+    console.log('[CalibrationSession] Starting click track playback via Music Assistant...');
+
+    // Build the URLs to the click tracks served by this app
+    // NOTE: These URLs must be accessible from the Music Assistant server!
+    const playing = this.simultaneous ? this.targets : [this.getTarget()];
+    const trackUrls = await Promise.all(playing.map((_, index) => this.getTrackUrl(index)));
+    const clickTrackUrl = trackUrls[0];
+    console.log('[CalibrationSession] Click track URLs:', trackUrls);
+
+    await this.loadExpectedClicks(trackUrls);
+    this.listenForPreamble();
+
+    let playbackMethod: 'music_assistant' | 'local' = 'music_assistant';
+
+    // Record the server time when we start playback (for offset calculation)
+    if (this.useClockSync && this.syncClient) {
+      this.playbackStartServerTime = this.syncClient.clock.clientToServerTime(
+        this.syncClient.clock.getCurrentTimeMicroseconds()
+      );
+      console.log(`[CalibrationSession] Playback start server time: ${this.playbackStartServerTime}μs`);
+    }
+
+    if (this.simultaneous) {
+      // Every player gets its own code track; there is no meaningful local
+      // fallback, so a failure here ends the session
+      await Promise.all(
+        this.targets.map((target, index) => maClient.playMedia(target.playerId, trackUrls[index], 'replace'))
+      );
+      console.log('[CalibrationSession] Code track commands sent to', this.targets.map((t) => t.playerName));
+    } else {
+      playbackMethod = await this.playClickTrack(clickTrackUrl);
+    }
+
+    this.emit({
+      type: 'playback_started',
+      data: {
+        method: playbackMethod,
+        url: clickTrackUrl,
+        urls: trackUrls,
+        clockSynced: this.useClockSync,
+      },
+    });
+
+    // Confirm the speaker and mic actually carry the near-ultrasonic band
+    if (this.band === 'near_ultrasonic') {
+      const snrDb = await this.measureBandSnr();
+      if (!this.isRunning) return;
+
+      if (snrDb < BAND_CHECK_MIN_SNR_DB) {
+        this.fallBackToAudible(`Near-ultrasonic clicks not heard (${snrDb.toFixed(1)} dB above background)`, snrDb);
+
+        const audibleUrl = await this.getTrackUrl(0);
+        await this.loadExpectedClicks([audibleUrl]);
+        this.listenForPreamble();
+        playbackMethod = await this.playClickTrack(audibleUrl);
+        this.emit({
+          type: 'playback_started',
+          data: {
+            method: playbackMethod,
+            url: audibleUrl,
+            urls: [audibleUrl],
+            clockSynced: this.useClockSync,
+          },
+        });
+      } else {
+        this.emit({ type: 'band_check', data: { supported: true, band: this.band, snrDb } });
       }
     }
 
-    for (const detection of this.detections) {
-      // Find the closest expected click that:
-      // 1. Hasn't been matched yet
-      // 2. Has matching frequency
-      // 3. Is within reasonable time range (accounting for estimated offset)
-      let bestMatch: { index: number; diff: number } | null = null;
+    // Auto-stop after calibration duration
+    // Add extra buffer for MA playback startup latency
+    const totalDurationMs = this.clickTrackGenerator.getDuration() + 5000;
+    setTimeout(() => {
+      if (this.isRunning) {
+        this.complete();
+      }
+    }, totalDurationMs);
+  }
 
-      for (let i = 0; i < this.expectedClicks.length; i++) {
-        if (usedExpected.has(i)) continue;
+  /**
+   * URL of the track the session expects, rendered on demand by the server
+   * from the generator's own config. Static hosting has no such route, so
+   * fall back to the pre-generated files there, failing if there is none.
+   */
+  private async getTrackUrl(index: number): Promise<string> {
+    return this.resolveTrackUrl(this.getTrackGenerator(index), this.getStaticTrackUrl(index));
+  }
 
-        const expected = this.expectedClicks[i];
+  private async resolveTrackUrl(generator: ClickTrackGenerator, staticUrl: string): Promise<string> {
+    const url = buildClickTrackUrl(window.location.origin, generator.getConfig());
+    if (await this.isAudioAvailable(url)) {
+      return url;
+    }
 
-        // Check frequency match first
-        if (Math.abs(detection.frequency - expected.frequency) > frequencyTolerance) {
-          continue;
+    console.warn('[CalibrationSession] Click track route unavailable, using static track (must match the session config)');
+    if (!(await this.isAudioAvailable(staticUrl))) {
+      throw new Error(`No click track for this mode: ${staticUrl} is not published and the server can't render tracks`);
+    }
+    return staticUrl;
+  }
+
+  private async isAudioAvailable(url: string): Promise<boolean> {
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      return response.ok && (response.headers.get('Content-Type')?.startsWith('audio/') ?? false);
+    } catch (error) {
+      console.warn('[CalibrationSession] Click track check failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Load each track's timing manifest and check it schedules exactly the
+   * clicks this session looks for, then analyse against the manifest's own
+   * schedule
+   */
+  private async loadExpectedClicks(trackUrls: string[]): Promise<void> {
+    const manifests = await Promise.all(trackUrls.map((url) => this.loadManifest(getManifestUrl(url))));
+
+    manifests.forEach((manifest, index) => {
+      this.getTrackGenerator(index).verifyManifest(manifest);
+    });
+
+    this.expectedClicks = manifests[0].clicks.map(({ time, frequency }) => ({ time, frequency }));
+    console.log(`[CalibrationSession] Loaded click track manifest, ${this.expectedClicks.length} clicks`);
+  }
+
+  /**
+   * Load a track's timing manifest. Without one the track's schedule can't
+   * be checked, so a missing manifest fails the run.
+   */
+  private async loadManifest(url: string): Promise<ClickTrackManifest> {
+    try {
+      const response = await fetch(url);
+      if (response.ok && response.headers.get('Content-Type')?.includes('json')) {
+        return (await response.json()) as ClickTrackManifest;
+      }
+    } catch (error) {
+      console.warn('[CalibrationSession] Click track manifest failed to load:', error);
+    }
+
+    throw new Error(`Click track manifest ${url} is missing, so the track can't be checked against the session`);
+  }
+
+  private getTarget(): CalibrationTarget {
+    return this.targets[this.targetIndex];
+  }
+
+  private getTrackGenerator(index: number): ClickTrackGenerator {
+    return this.simultaneous ? this.codeGenerators[index] : this.clickTrackGenerator;
+  }
+
+  private getStaticTrackUrl(index: number): string {
+    if (this.simultaneous) {
+      return `${window.location.origin}/calibration-code-${index}.wav`;
+    }
+    return this.band === 'near_ultrasonic'
+      ? `${window.location.origin}/calibration-clicks-ultrasonic.wav`
+      : `${window.location.origin}/calibration-clicks.wav`;
+  }
+
+  private getStaticRampUrl(): string {
+    return this.band === 'near_ultrasonic'
+      ? `${window.location.origin}/calibration-ramp-ultrasonic.wav`
+      : `${window.location.origin}/calibration-ramp.wav`;
+  }
+
+  private createClickTrackGenerator(): ClickTrackGenerator {
+    return new ClickTrackGenerator(getSessionTrackConfig(this.config, this.band));
+  }
+
+  /**
+   * Play the click track on the target player, or through the phone speaker
+   * if Music Assistant refuses
+   */
+  private async playClickTrack(url: string): Promise<'music_assistant' | 'local'> {
+    try {
+      // Tell Music Assistant to play the click track on the selected player
+      // 'replace' clears the queue and plays immediately
+      const target = this.getTarget();
+      await maClient.playMedia(target.playerId, url, 'replace');
+      console.log('[CalibrationSession] Click track command sent to', target.playerName);
+      return 'music_assistant';
+    } catch (playError) {
+      console.error('[CalibrationSession] Failed to play via MA, falling back to local playback:', playError);
+
+      // Fallback to local playback (phone speaker), whose level says nothing about the player's distance
+      this.playerVolume = null;
+      const buffer = this.clickTrackGenerator.generateAudioBuffer(this.audioContext!);
+      this.audioSource = this.audioContext!.createBufferSource();
+      this.audioSource.buffer = buffer;
+      this.audioSource.connect(this.audioContext!.destination);
+      this.audioSource.start();
+
+      console.log('[CalibrationSession] Fallback: Click track playing through phone speaker');
+      return 'local';
+    }
+  }
+
+  /**
+   * Play the level ramp on the target player and move its volume until
+   * full-level clicks peak near the target. Volume is taken to scale
+   * amplitude linearly; the next pass corrects players with another curve.
+   * Any failure leaves the volume as it is and calibration carries on.
+   */
+  private async stageGain(): Promise<void> {
+    const { playerId } = this.getTarget();
+    const ramp = new ClickTrackGenerator(getLevelRampTrackConfig(this.config, this.band));
+
+    this.stagingGain = true;
+    try {
+      let volume = (await maClient.getPlayer(playerId)).volume_level;
+      if (typeof volume !== 'number') {
+        this.skipGainStaging('Player has no volume control');
+        return;
+      }
+
+      const rampUrl = await this.resolveTrackUrl(ramp, this.getStaticRampUrl());
+      ramp.verifyManifest(await this.loadManifest(getManifestUrl(rampUrl)));
+
+      for (let pass = 1; pass <= GAIN_STAGING_PASSES && this.isRunning; pass++) {
+        this.emit({ type: 'gain_staging', data: { stage: 'measuring', pass, volume } });
+
+        const analysis = await this.measureLevelRamp(ramp, rampUrl);
+        if (!this.isRunning) return;
+        if (!analysis || analysis.adjustmentDb === null) {
+          this.skipGainStaging(analysis ? 'Level ramp too quiet to measure' : 'Level ramp not heard');
+          return;
         }
 
-        // Calculate time difference, accounting for estimated playback offset
-        const adjustedExpectedTime = expected.time + estimatedOffset;
-        const diff = Math.abs(detection.timestamp - adjustedExpectedTime);
+        const { adjustmentDb, clickPeakDb, clickSnrDb, steps } = analysis;
+        const target = Math.max(
+          GAIN_STAGING_MIN_VOLUME,
+          Math.min(100, Math.round(volume * Math.pow(10, adjustmentDb / 20)))
+        );
+        const settled = Math.abs(adjustmentDb) <= GAIN_STAGING_TOLERANCE_DB || target === volume;
+
+        console.log(
+          `[CalibrationSession] Level ramp pass ${pass}: clicks peak at ${clickPeakDb?.toFixed(1)} dBFS, ` +
+          `${clickSnrDb?.toFixed(1)} dB above noise at volume ${volume}`
+        );
 
-        // Only match if within reasonable range (±300ms after offset adjustment)
-        if (diff < 300 && (!bestMatch || diff < bestMatch.diff)) {
-          bestMatch = { index: i, diff };
+        if (!settled) {
+          await maClient.playerCommand(playerId, 'volume_set', { volume_level: target });
+          if (!this.originalVolumes.has(playerId)) {
+            this.originalVolumes.set(playerId, volume);
+          }
         }
-      }
 
-      if (bestMatch) {
-        usedExpected.add(bestMatch.index);
-        matched.push({
-          expectedTime: this.expectedClicks[bestMatch.index].time,
-          detectedTime: detection.timestamp,
+        this.emit({
+          type: 'gain_staging',
+          data: {
+            stage: 'measured',
+            pass,
+            previousVolume: volume,
+            volume: settled ? volume : target,
+            clickPeakDb,
+            clickSnrDb,
+            clipped: steps.some((step) => step.clipped),
+          },
         });
-        console.log(`[CalibrationSession] Matched detection at ${detection.timestamp.toFixed(0)}ms (${detection.frequency}Hz) to expected click #${bestMatch.index + 1} at ${this.expectedClicks[bestMatch.index].time}ms`);
-      } else {
-        console.log(`[CalibrationSession] No match for detection at ${detection.timestamp.toFixed(0)}ms (${detection.frequency}Hz)`);
+
+        if (settled) return;
+        volume = target;
       }
+    } catch (error) {
+      this.skipGainStaging(error instanceof Error ? error.message : String(error));
+    } finally {
+      this.stagingGain = false;
+    }
+  }
+
+  /**
+   * Record the mic while the level ramp plays once, and measure it from the
+   * ramp's preamble on. Returns null if the preamble never arrives.
+   */
+  private async measureLevelRamp(ramp: ClickTrackGenerator, url: string): Promise<LevelRampAnalysis | null> {
+    const detector = this.audioDetector!;
+
+    this.recording.clear();
+
+    try {
+      const preamble = new Promise<number | null>((resolve) => {
+        const timeout = setTimeout(() => resolve(null), GAIN_STAGING_START_TIMEOUT_MS);
+        detector.listenForPreamble(ramp.generatePreamble(), (timestamp) => {
+          clearTimeout(timeout);
+          resolve(timestamp);
+        });
+      });
+
+      await maClient.playMedia(this.getTarget().playerId, url, 'replace');
+
+      const rampStart = await preamble;
+      if (rampStart === null || !this.isRunning) return null;
+
+      // The preamble is found a chunk or two late, so this covers the whole ramp
+      await new Promise((resolve) => setTimeout(resolve, ramp.getDuration()));
+
+      const preambleSample = Math.round(((rampStart - this.recording.getStartTime()) / 1000) * this.config.sampleRate);
+      return analyzeLevelRamp(this.recording.getSamples(), this.config.sampleRate, preambleSample, ramp);
+    } finally {
+      this.recording.clear();
     }
+  }
 
-    console.log(`[CalibrationSession] Matched ${matched.length} of ${this.detections.length} detections`);
-    return matched;
+  /**
+   * Pass mic overloads on as they happen, so the user can back off. The
+   * level ramp's top steps may clip on purpose, so it's left out.
+   */
+  private reportClipping(report: ClippingReport): void {
+    if (this.stagingGain || report.timestamp - this.lastClippingTime < CLIPPING_EVENT_INTERVAL_MS) return;
+
+    this.lastClippingTime = report.timestamp;
+    console.warn(
+      `[CalibrationSession] Mic clipping: ${report.clippedSamples} samples, peak ${report.peak.toFixed(2)} at ${report.timestamp.toFixed(0)}ms`
+    );
+    this.emit({ type: 'clipping', data: report });
+  }
+
+  private skipGainStaging(reason: string): void {
+    console.warn('[CalibrationSession] Gain staging skipped:', reason);
+    this.emit({ type: 'gain_staging', data: { stage: 'skipped', reason } });
+  }
+
+  /**
+   * Watch the near-ultrasonic band while the first clicks play and return how
+   * far its peak rises above its median (clicks are short, so the median is
+   * the background)
+   */
+  private async measureBandSnr(): Promise<number> {
+    const levels: number[] = [];
+    const [low, high] = NEAR_ULTRASONIC_BAND;
+
+    for (let elapsed = 0; elapsed < BAND_CHECK_DURATION_MS && this.isRunning; elapsed += BAND_CHECK_POLL_MS) {
+      await new Promise((resolve) => setTimeout(resolve, BAND_CHECK_POLL_MS));
+      const level = this.audioDetector?.getBandLevel(low, high) ?? -Infinity;
+      if (Number.isFinite(level)) levels.push(level);
+    }
+
+    if (levels.length === 0) return 0;
+
+    const sorted = [...levels].sort((a, b) => a - b);
+    const median = sorted[Math.floor(sorted.length / 2)];
+    return sorted[sorted.length - 1] - median;
+  }
+
+  /**
+   * Switch the session to audible clicks, discarding anything detected so far
+   */
+  private fallBackToAudible(reason: string, snrDb: number | null): void {
+    console.warn('[CalibrationSession] Falling back to audible clicks:', reason);
+
+    try {
+      this.audioSource?.stop();
+    } catch {
+      // Already stopped
+    }
+    this.audioSource = null;
+
+    this.band = 'audible';
+    this.clickTrackGenerator = this.createClickTrackGenerator();
+    this.expectedClicks = this.clickTrackGenerator.getClickTimestamps();
+    this.detections = [];
+    this.audioDetector?.setBand({
+      expectedFrequencies: this.config.frequencies,
+      highPassFrequency: 0,
+      decodeClickIndex: this.config.encodeClickIndex,
+    });
+    this.setReferenceClicks();
+
+    this.emit({ type: 'band_check', data: { supported: false, band: this.band, reason, snrDb } });
+    this.emit({ type: 'progress', data: this.getProgress() });
+  }
+
+  /**
+   * Player volume as Music Assistant reports it, null if it has none
+   */
+  private async readPlayerVolume(): Promise<number | null> {
+    try {
+      const volume = (await maClient.getPlayer(this.getTarget().playerId)).volume_level;
+      return typeof volume === 'number' ? volume : null;
+    } catch (error) {
+      console.warn('[CalibrationSession] Failed to read player volume:', error);
+      return null;
+    }
+  }
+
+  /**
+   * How far the phone is from a speaker: as entered for the run, or else
+   * estimated from the click level against the player's reference run.
+   * Without either, the offset keeps the sound's travel time.
+   */
+  private getSpeakerDistance(target: CalibrationTarget, clickLevelDb: number | null): SpeakerDistance | null {
+    const entered = this.config.speakerDistances[target.playerId];
+    if (entered !== undefined) {
+      return { distanceM: entered, source: 'entered' };
+    }
+
+    const reference = this.config.distanceReferences[target.playerId];
+    const estimated =
+      reference && clickLevelDb !== null && this.playerVolume !== null
+        ? estimateDistance(reference, clickLevelDb, this.playerVolume, this.band)
+        : null;
+    if (estimated === null) {
+      console.warn(`[CalibrationSession] No distance for ${target.playerName}, offset includes the acoustic delay`);
+      return null;
+    }
+
+    console.log(`[CalibrationSession] ${target.playerName} estimated ${estimated.toFixed(2)}m away from the click level`);
+    return { distanceM: estimated, source: 'estimated' };
+  }
+
+  /**
+   * Latency of the mic in use from its loopback profile, 0 if it hasn't
+   * been measured. Offsets from different phones only agree once their own
+   * mic latency is taken off.
+   */
+  private getInputLatency(): number {
+    const device = this.audioDetector?.getInputDevice();
+    const profile = device ? this.config.inputLatencyProfiles[device.id] : undefined;
+
+    if (!profile) {
+      console.warn('[CalibrationSession] No input latency profile for this mic, offsets include its latency');
+      return 0;
+    }
+
+    console.log(`[CalibrationSession] Input latency for ${profile.deviceLabel || profile.deviceId}: ${profile.inputLatencyMs.toFixed(1)}ms`);
+    return profile.inputLatencyMs;
+  }
+
+  /**
+   * Give the detector the track's clicks, so it can place each onset to the
+   * sample. Code tracks are analysed from the recording instead.
+   */
+  private setReferenceClicks(): void {
+    if (this.simultaneous) return;
+
+    const frequencies = [...new Set(this.clickTrackGenerator.getClickTimestamps().map(({ frequency }) => frequency))];
+    this.audioDetector?.setReferenceClicks(
+      frequencies.map((frequency) => ({ frequency, samples: this.clickTrackGenerator.generateReferenceClick(frequency) }))
+    );
+  }
+
+  /**
+   * Arm the detector for the track's preamble, which pins down when playback
+   * actually started
+   */
+  private listenForPreamble(): void {
+    this.preambleTime = null;
+    this.clickTrackStartTime = this.audioDetector?.getCurrentTime() ?? null;
+    if (this.simultaneous || !this.clickTrackGenerator.getConfig().preamble) return;
+
+    this.audioDetector?.listenForPreamble(this.clickTrackGenerator.generatePreamble(), (timestamp, correlation) => {
+      this.preambleTime = timestamp;
+      this.emit({ type: 'preamble_detected', data: { timestamp, correlation } });
+    });
+  }
+
+  private reportClockSync(report: ClockSyncReport): void {
+    this.clockSync = report;
+    this.emit({ type: 'clock_synced', data: report });
   }
 
   private emit(event: CalibrationEvent): void {
@@ -422,6 +1085,14 @@ export class CalibrationSession {
     }
     this.audioContext = null;
 
+    // Put player volumes back where gain staging found them
+    this.originalVolumes.forEach((volume, playerId) => {
+      maClient
+        .playerCommand(playerId, 'volume_set', { volume_level: volume })
+        .catch((error) => console.warn('[CalibrationSession] Failed to restore player volume:', error));
+    });
+    this.originalVolumes.clear();
+
     // Stop microphone
     this.audioDetector?.dispose();
     this.audioDetector = null;
@@ -441,5 +1112,30 @@ export function createCalibrationSession(
   serverUrl: string,
   config?: Partial<CalibrationConfig>
 ): CalibrationSession {
-  return new CalibrationSession(playerId, playerName, serverUrl, config);
+  return new CalibrationSession([{ playerId, playerName }], serverUrl, config);
+}
+
+/**
+ * Create a session that calibrates all players at once from one recording
+ */
+export function createSimultaneousCalibrationSession(
+  targets: CalibrationTarget[],
+  serverUrl: string,
+  config?: Partial<CalibrationConfig>
+): CalibrationSession {
+  return new CalibrationSession(targets, serverUrl, config);
+}
+
+/**
+ * Create a session that plays the click track on each player in turn while
+ * the phone stays at one listening position, so the offsets line up the
+ * sound arriving there
+ */
+export function createListeningPositionSession(
+  targets: CalibrationTarget[],
+  listeningPosition: string,
+  serverUrl: string,
+  config?: Partial<CalibrationConfig>
+): CalibrationSession {
+  return new CalibrationSession(targets, serverUrl, { ...config, listeningPosition });
 }
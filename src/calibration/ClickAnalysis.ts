@@ -0,0 +1,471 @@
+/**
+ * Click Analysis
+ * Turns click detections into player offsets. CalibrationSession runs these
+ * steps live; analyzeRecording runs the whole pipeline on a recording, with
+ * no browser needed, so captures can be reanalysed in Node.
+ */
+
+import type { CalibrationResult, ClickDetection, ProbeBand } from '../types';
+import { getAcousticDelayMs, measureClickLevelDb } from './AcousticPath';
+import type { SpeakerDistance } from './AcousticPath';
+import type { CalibrationTarget } from './CalibrationSession';
+import { ClickTrackGenerator, NEAR_ULTRASONIC_BAND } from './ClickTrackGenerator';
+import type { ClickTrackManifest } from './ClickTrackGenerator';
+import { CAPTURE_BLOCK_SIZE, ClickDetector, NEAR_ULTRASONIC_HIGH_PASS_HZ } from './ClickDetector';
+import type { AudioDetectorConfig } from './ClickDetector';
+import { OffsetCalculator } from './OffsetCalculator';
+
+export interface MatchedClick {
+  expectedTime: number; // Click start in the track (ms)
+  detectedTime: number; // Click onset on the detection timeline (ms)
+}
+
+export interface ExpectedClick {
+  time: number;
+  frequency: number;
+}
+
+export interface RecordingAnalysisOptions {
+  targets?: CalibrationTarget[];  // One per manifest (default: placeholder players)
+  startTime?: number;             // Detection time (ms) of the first sample (default: 0)
+  clickTrackStartTime?: number | null; // Detection time (ms) the click track was started; audio before it only sets the background
+  inputLatencyMs?: number;        // Mic latency taken off every offset (default: 0)
+  speakerDistances?: Record<string, number>; // Speaker-to-phone metres by player id (default: none)
+  turns?: number[];               // Detection time (ms) each player's track was started, for tracks played in turn
+  timeOrigin?: number;            // Detection time (ms) offsets are measured from (default: 0)
+  detector?: Partial<AudioDetectorConfig>; // Detector settings over those the track implies
+}
+
+export interface RecordingAnalysis {
+  detections: ClickDetection[];
+  results: CalibrationResult[];
+  preambleTime: number | null; // When the track's preamble was heard (detection timeline, ms), the first turn's for turns
+}
+
+// Hz tolerance for matching a detection's frequency to a click's
+const MATCH_FREQUENCY_TOLERANCE = 150;
+
+// Detections searched against the expected clicks while matching, and the
+// window around each click they must land in, when the preamble isn't heard
+const MATCH_ESTIMATE_DETECTIONS = 5;
+const MATCH_WINDOW_MS = 300;
+
+// Q of the live high-pass, a BiquadFilterNode's default (in dB for high-pass filters)
+const HIGH_PASS_Q_DB = 1;
+
+/**
+ * Click start on the detection timeline: the onset chunk's end moved by
+ * the detector's sample-accurate refinement
+ */
+export function getOnsetTime(detection: ClickDetection, sampleRate: number): number {
+  return detection.timestamp + (detection.sampleOffset * 1000) / sampleRate;
+}
+
+/**
+ * Pair detections with the clicks of the track. Detections that decoded
+ * their index match that click; the rest match the nearest click of their
+ * frequency once the playback offset is known, from the preamble if it was
+ * heard, otherwise from the detections themselves.
+ */
+export function matchDetections(
+  detections: ClickDetection[],
+  expectedClicks: ExpectedClick[],
+  options: { sampleRate: number; clickIntervalMs: number; preambleTime: number | null }
+): MatchedClick[] {
+  const { sampleRate, clickIntervalMs, preambleTime } = options;
+  const matched: MatchedClick[] = [];
+  const usedExpected = new Set<number>();
+
+  // Detections that carry a decoded index match their click exactly
+  const unindexed: ClickDetection[] = [];
+  for (const detection of detections) {
+    const index = detection.clickIndex;
+    if (index === undefined || index >= expectedClicks.length || usedExpected.has(index)) {
+      unindexed.push(detection);
+      continue;
+    }
+
+    usedExpected.add(index);
+    matched.push({
+      expectedTime: expectedClicks[index].time,
+      detectedTime: getOnsetTime(detection, sampleRate),
+    });
+    console.log(`[ClickAnalysis] Detection at ${detection.timestamp.toFixed(0)}ms carries index #${index + 1}`);
+  }
+
+  // First pass: estimate the overall offset from the first few detections
+  // This handles the case where MA playback starts with some delay
+  let estimatedOffset = 0;
+  let matchWindowMs = MATCH_WINDOW_MS;
+  if (preambleTime !== null) {
+    // The preamble is track time 0, so every click's arrival is known and
+    // each detection belongs to the nearest scheduled click
+    estimatedOffset = preambleTime;
+    matchWindowMs = clickIntervalMs / 2;
+    console.log(`[ClickAnalysis] Playback offset from preamble: ${estimatedOffset.toFixed(0)}ms`);
+  } else if (matched.length > 0) {
+    // An indexed detection pins the offset down exactly
+    estimatedOffset = matched[0].detectedTime - matched[0].expectedTime;
+    console.log(`[ClickAnalysis] Playback offset from indexed click: ${estimatedOffset.toFixed(0)}ms`);
+  } else if (detections.length > 0) {
+    // Find first detection that matches a frequency
+    for (const detection of detections.slice(0, MATCH_ESTIMATE_DETECTIONS)) {
+      for (const expected of expectedClicks) {
+        if (Math.abs(detection.frequency - expected.frequency) <= MATCH_FREQUENCY_TOLERANCE) {
+          // This detection likely corresponds to this expected click
+          estimatedOffset = getOnsetTime(detection, sampleRate) - expected.time;
+          console.log(`[ClickAnalysis] Estimated playback offset: ${estimatedOffset.toFixed(0)}ms`);
+          break;
+        }
+      }
+      if (estimatedOffset !== 0) break;
+    }
+  }
+
+  for (const detection of unindexed) {
+    const onsetTime = getOnsetTime(detection, sampleRate);
+
+    // Find the closest expected click that:
+    // 1. Hasn't been matched yet
+    // 2. Has matching frequency
+    // 3. Is within reasonable time range (accounting for estimated offset)
+    let bestMatch: { index: number; diff: number } | null = null;
+
+    for (let i = 0; i < expectedClicks.length; i++) {
+      if (usedExpected.has(i)) continue;
+
+      const expected = expectedClicks[i];
+
+      // Check frequency match first
+      if (Math.abs(detection.frequency - expected.frequency) > MATCH_FREQUENCY_TOLERANCE) {
+        continue;
+      }
+
+      // Calculate time difference, accounting for estimated playback offset
+      const adjustedExpectedTime = expected.time + estimatedOffset;
+      const diff = Math.abs(onsetTime - adjustedExpectedTime);
+
+      // Only match if within reasonable range after offset adjustment
+      if (diff < matchWindowMs && (!bestMatch || diff < bestMatch.diff)) {
+        bestMatch = { index: i, diff };
+      }
+    }
+
+    if (bestMatch) {
+      usedExpected.add(bestMatch.index);
+      matched.push({
+        expectedTime: expectedClicks[bestMatch.index].time,
+        detectedTime: onsetTime,
+      });
+      console.log(`[ClickAnalysis] Matched detection at ${onsetTime.toFixed(1)}ms (${detection.frequency}Hz) to expected click #${bestMatch.index + 1} at ${expectedClicks[bestMatch.index].time}ms`);
+    } else {
+      console.log(`[ClickAnalysis] No match for detection at ${detection.timestamp.toFixed(0)}ms (${detection.frequency}Hz)`);
+    }
+  }
+
+  console.log(`[ClickAnalysis] Matched ${matched.length} of ${detections.length} detections`);
+  return matched;
+}
+
+/**
+ * Find every repetition of a player's code in a recording that starts at
+ * `startTime` on the detection timeline, as detections and as matches
+ * against the track's clicks
+ */
+export function detectCodeClicks(
+  offsetCalculator: OffsetCalculator,
+  code: Float32Array,
+  recording: Float32Array,
+  options: { sampleRate: number; clickIntervalMs: number; startTime: number; playerId: string },
+  expectedClicks: ExpectedClick[]
+): { detections: ClickDetection[]; matched: MatchedClick[] } {
+  const { sampleRate, clickIntervalMs, startTime, playerId } = options;
+  const intervalSamples = Math.floor((clickIntervalMs / 1000) * sampleRate);
+  // PHAT keeps a quiet player's peaks apart from the louder codes and the room's tail
+  const arrivals = offsetCalculator.detectCodeArrivals(code, recording, intervalSamples, 'phat');
+
+  const detections: ClickDetection[] = [];
+  const matched: MatchedClick[] = [];
+  for (const arrival of arrivals) {
+    const detection: ClickDetection = {
+      timestamp: startTime + (arrival.sampleIndex * 1000) / sampleRate,
+      frequency: 0, // Broadband code
+      confidence: arrival.confidence,
+      sampleOffset: 0,
+      playerId,
+    };
+    detections.push(detection);
+
+    if (arrival.repetition < expectedClicks.length) {
+      matched.push({
+        expectedTime: expectedClicks[arrival.repetition].time,
+        detectedTime: detection.timestamp,
+      });
+    }
+  }
+
+  return { detections, matched };
+}
+
+/**
+ * A player's result from its matched clicks, less the mic latency and,
+ * when the speaker's distance is known, the sound's travel time
+ */
+export function calculateResult(
+  offsetCalculator: OffsetCalculator,
+  target: CalibrationTarget,
+  matched: MatchedClick[],
+  details: {
+    detectedClicks: number;
+    totalClicks: number;
+    inputLatencyMs: number;
+    band?: ProbeBand;
+    distance?: SpeakerDistance | null;
+    clickLevelDb?: number | null;
+    playerVolume?: number | null;
+    referencePosition?: string | null;
+    timeOrigin?: number; // Detection time (ms) the offset is measured from (default: 0)
+  }
+): CalibrationResult {
+  const timeOrigin = details.timeOrigin ?? 0;
+  const { offsetMs, confidence, stdDev, intervalMs, rejected } = offsetCalculator.calculateAverageOffset(
+    matched.map((click) => ({ ...click, detectedTime: click.detectedTime - timeOrigin }))
+  );
+  const { distance, clickLevelDb, playerVolume, referencePosition } = details;
+  const rawOffsetMs = offsetMs - details.inputLatencyMs;
+  const acousticDelayMs = distance ? getAcousticDelayMs(distance.distanceM) : 0;
+  const correctionMs = details.inputLatencyMs + acousticDelayMs;
+
+  const result: CalibrationResult = {
+    playerId: target.playerId,
+    playerName: target.playerName,
+    offsetMs: rawOffsetMs - acousticDelayMs,
+    ...(intervalMs && { offsetIntervalMs: [intervalMs[0] - correctionMs, intervalMs[1] - correctionMs] }),
+    confidence,
+    rejectedClicks: rejected,
+    detectedClicks: details.detectedClicks,
+    totalClicks: details.totalClicks,
+    ...(details.band && { band: details.band }),
+    inputLatencyMs: details.inputLatencyMs,
+    rawOffsetMs,
+    ...(distance && { acousticDelayMs, distanceM: distance.distanceM, distanceSource: distance.source }),
+    ...(clickLevelDb != null && { clickLevelDb }),
+    ...(playerVolume != null && { playerVolume }),
+    ...(referencePosition && { referencePosition }),
+  };
+
+  console.log(`[ClickAnalysis] ${target.playerName}:`, result, 'stdDev:', stdDev);
+  return result;
+}
+
+/**
+ * Run a recording through the same detection and matching as a live
+ * session. `manifests` are the tracks that played, one per player: a single
+ * click track, one code track per player for simultaneous calibration, or
+ * one click track per player with `turns` for a listening-position session.
+ * The detector is set up as the session sets it up for that track.
+ */
+export function analyzeRecording(
+  samples: Float32Array,
+  sampleRate: number,
+  manifests: ClickTrackManifest[],
+  options: RecordingAnalysisOptions = {}
+): RecordingAnalysis {
+  if (manifests.length === 0) {
+    throw new Error('No click track manifest to analyse against');
+  }
+
+  const targets =
+    options.targets ?? manifests.map((_, index) => ({ playerId: `player-${index + 1}`, playerName: `Player ${index + 1}` }));
+  if (targets.length !== manifests.length) {
+    throw new Error(`${manifests.length} manifests for ${targets.length} players`);
+  }
+
+  if (options.turns) {
+    if (options.turns.length !== manifests.length) {
+      throw new Error(`${manifests.length} manifests for ${options.turns.length} turns`);
+    }
+    return analyzeTurns(samples, sampleRate, manifests, targets, options.turns, options);
+  }
+
+  const startTime = options.startTime ?? 0;
+  const inputLatencyMs = options.inputLatencyMs ?? 0;
+  const getDistance = (playerId: string): SpeakerDistance | null => {
+    const distanceM = options.speakerDistances?.[playerId];
+    return distanceM === undefined ? null : { distanceM, source: 'entered' };
+  };
+  const offsetCalculator = new OffsetCalculator(sampleRate);
+
+  // Rendered at the recording's rate, the schedule in ms stays the same
+  const generators = manifests.map((manifest) => new ClickTrackGenerator({ ...manifest.config, sampleRate }));
+
+  if (manifests.every((manifest) => manifest.shape === 'code')) {
+    const detections: ClickDetection[] = [];
+    const results = targets.map((target, index) => {
+      const { clickInterval } = generators[index].getConfig();
+      const expectedClicks = manifests[index].clicks.map(({ time, frequency }) => ({ time, frequency }));
+      const codeClicks = detectCodeClicks(
+        offsetCalculator,
+        generators[index].generateReferenceClick(0),
+        samples,
+        { sampleRate, clickIntervalMs: clickInterval, startTime, playerId: target.playerId },
+        expectedClicks
+      );
+      detections.push(...codeClicks.detections);
+
+      return calculateResult(offsetCalculator, target, codeClicks.matched, {
+        detectedClicks: codeClicks.detections.length,
+        totalClicks: expectedClicks.length,
+        inputLatencyMs,
+        distance: getDistance(target.playerId),
+      });
+    });
+
+    return { detections, results, preambleTime: null };
+  }
+
+  if (manifests.length > 1) {
+    throw new Error('Only code tracks can be analysed for several players at once');
+  }
+
+  const [manifest] = manifests;
+  const [generator] = generators;
+  const trackConfig = generator.getConfig();
+  const band: ProbeBand = trackConfig.frequencies.every((frequency) => frequency >= NEAR_ULTRASONIC_BAND[0])
+    ? 'near_ultrasonic'
+    : 'audible';
+
+  const detectorConfig: Partial<AudioDetectorConfig> = {
+    sampleRate,
+    expectedFrequencies: trackConfig.frequencies,
+    decodeClickIndex: trackConfig.encodeIndex,
+    highPassFrequency: band === 'near_ultrasonic' ? NEAR_ULTRASONIC_HIGH_PASS_HZ : 0,
+    ...options.detector,
+  };
+  const detector = new ClickDetector(detectorConfig);
+
+  const frequencies = [...new Set(generator.getClickTimestamps().map(({ frequency }) => frequency))];
+  detector.setReferenceClicks(
+    frequencies.map((frequency) => ({ frequency, samples: generator.generateReferenceClick(frequency) }))
+  );
+
+  const clickTrackStartTime = options.clickTrackStartTime ?? startTime;
+  const detections: ClickDetection[] = [];
+  detector.start((detection) => {
+    if (detection.timestamp >= clickTrackStartTime) {
+      detections.push(detection);
+    }
+  });
+
+  let preambleTime: number | null = null;
+  let listening = false;
+  const highPassFrequency = detectorConfig.highPassFrequency ?? 0;
+  const input = highPassFrequency > 0 ? highPass(samples, sampleRate, highPassFrequency) : samples;
+
+  for (let start = 0; start + CAPTURE_BLOCK_SIZE <= input.length; start += CAPTURE_BLOCK_SIZE) {
+    const elapsed = startTime + ((start + CAPTURE_BLOCK_SIZE) * 1000) / sampleRate;
+
+    // The session arms the preamble search as it starts the track
+    if (!listening && elapsed >= clickTrackStartTime) {
+      listening = true;
+      if (trackConfig.preamble) {
+        detector.listenForPreamble(generator.generatePreamble(), (timestamp) => {
+          preambleTime = timestamp;
+        });
+      }
+    }
+
+    detector.process(input.subarray(start, start + CAPTURE_BLOCK_SIZE), elapsed);
+  }
+  detector.finish();
+
+  const expectedClicks = manifest.clicks.map(({ time, frequency }) => ({ time, frequency }));
+  const matched = matchDetections(detections, expectedClicks, {
+    sampleRate,
+    clickIntervalMs: trackConfig.clickInterval,
+    preambleTime,
+  });
+
+  const result = calculateResult(offsetCalculator, targets[0], matched, {
+    detectedClicks: detections.length,
+    totalClicks: expectedClicks.length,
+    inputLatencyMs,
+    band,
+    distance: getDistance(targets[0].playerId),
+    clickLevelDb: measureClickLevelDb(detections),
+    timeOrigin: options.timeOrigin,
+  });
+
+  return { detections, results: [result], preambleTime };
+}
+
+/**
+ * Analyse each turn of a listening-position session on its own stretch of
+ * the recording: from the start of the turn before, which gives the
+ * detector background to settle on, to the start of the next. Each turn is
+ * timed from its own start, as the session times it.
+ */
+function analyzeTurns(
+  samples: Float32Array,
+  sampleRate: number,
+  manifests: ClickTrackManifest[],
+  targets: CalibrationTarget[],
+  turns: number[],
+  options: RecordingAnalysisOptions
+): RecordingAnalysis {
+  const startTime = options.startTime ?? 0;
+  const toSample = (time: number) =>
+    Math.min(samples.length, Math.max(0, Math.round(((time - startTime) / 1000) * sampleRate)));
+  const analysis: RecordingAnalysis = { detections: [], results: [], preambleTime: null };
+
+  turns.forEach((clickTrackStartTime, index) => {
+    const first = index > 0 ? toSample(turns[index - 1]) : 0;
+    const end = index < turns.length - 1 ? toSample(turns[index + 1]) : samples.length;
+
+    const turn = analyzeRecording(samples.subarray(first, end), sampleRate, [manifests[index]], {
+      ...options,
+      targets: [targets[index]],
+      startTime: startTime + (first * 1000) / sampleRate,
+      clickTrackStartTime,
+      timeOrigin: clickTrackStartTime,
+      turns: undefined,
+    });
+    analysis.detections.push(...turn.detections);
+    analysis.results.push(...turn.results);
+    analysis.preambleTime ??= turn.preambleTime;
+  });
+
+  return analysis;
+}
+
+/**
+ * Second-order high-pass with the response of the BiquadFilterNode the live
+ * capture runs through (Audio EQ Cookbook, Q in dB as Web Audio has it)
+ */
+function highPass(samples: Float32Array, sampleRate: number, frequency: number): Float32Array {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const alpha = Math.sin(w0) / (2 * Math.pow(10, HIGH_PASS_Q_DB / 20));
+  const cos = Math.cos(w0);
+  const a0 = 1 + alpha;
+  const b0 = (1 + cos) / 2 / a0;
+  const b1 = -(1 + cos) / a0;
+  const b2 = b0;
+  const a1 = (-2 * cos) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const filtered = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    filtered[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return filtered;
+}
@@ -0,0 +1,721 @@
+/**
+ * Click Detector
+ * Finds click onsets in a stream of audio chunks, with no dependency on the
+ * browser: AudioDetector feeds it from the mic, and offline analysis from a
+ * recording.
+ *
+ * Every chunk comes with the elapsed time (ms) of its last sample, and every
+ * time reported back is on that same timeline.
+ */
+
+import type { ClickDetection } from '../types';
+import { decodeIndexCode, goertzelPower } from './ClickIndexCode';
+import { fftCrossCorrelate } from './fft';
+import { OffsetCalculator } from './OffsetCalculator';
+
+export interface AudioDetectorConfig {
+  sampleRate: number;
+  fftSize: number;
+  onsetThreshold: number;       // Lowest in-band RMS accepted as an onset, however quiet the room
+  noiseThresholdFactor: number; // In-band RMS must also exceed this multiple of the band's background
+  minBandSnr: number;           // In-band power over its guard tones needed for an onset
+  minClickGap: number;          // Minimum ms between valid clicks
+  expectedFrequencies: number[]; // Frequencies to look for
+  decodeClickIndex: boolean;    // Decode the index code that follows each click
+  highPassFrequency: number;    // High-pass ahead of detection in Hz, 0 disables (near-ultrasonic mode)
+  firstArrival: boolean;        // Time clicks by their direct sound rather than their strongest arrival
+  firstArrivalThreshold: number; // Share of the envelope peak that marks the direct sound's leading edge
+}
+
+export const DEFAULT_AUDIO_DETECTOR_CONFIG: AudioDetectorConfig = {
+  sampleRate: 48000,
+  fftSize: 2048,
+  onsetThreshold: 0.01,         // Lowered for better sensitivity
+  noiseThresholdFactor: 3,
+  minBandSnr: 4,                // 6 dB above the local background
+  minClickGap: 500,
+  // Frequencies optimized for smartphone mic sensitivity
+  // Sweet spots: 220, 500, 1000, 2500, 3500 Hz
+  // Avoid 4k+ where mics and speakers both struggle
+  expectedFrequencies: [500, 1000, 2000, 3000],
+  decodeClickIndex: false,
+  highPassFrequency: 0,
+  firstArrival: true,           // A reflection can be louder, but never earlier
+  firstArrivalThreshold: 0.1,
+};
+
+// High-pass used in near-ultrasonic mode to keep speech and appliances out of the onset energy
+export const NEAR_ULTRASONIC_HIGH_PASS_HZ = 16000;
+
+// Samples per chunk the capture worklet posts (~43ms at 48kHz); offline
+// analysis feeds recordings in the same chunks
+export const CAPTURE_BLOCK_SIZE = 2048;
+
+// Audio needed after a click's onset chunk to hold the click and its index code
+const INDEX_DECODE_WINDOW_MS = 300;
+
+// Furthest ahead of the strongest arrival the direct sound is looked for:
+// room for reflections off nearby walls, while noise further ahead stays out
+const FIRST_ARRIVAL_MAX_LEAD_MS = 10;
+
+// Guard tones this far either side of each expected frequency measure the
+// background around it; a click's energy stays well inside the gap
+const BAND_GUARD_OFFSET = 0.15;
+
+// Background tracking by minimum statistics: each chunk's power is smoothed
+// and the lowest smoothed value over the window taken as the background.
+// The window outlasts a click and its index code, so it always holds some
+// background, and short enough to follow a fan or HVAC switching on.
+const NOISE_SMOOTHING = 0.5;
+const NOISE_WINDOW_MS = 1500;
+
+// Minimum of the smoothed power over its mean, for pure background. A single
+// tone's power fluctuates far more from chunk to chunk than the broadband
+// power, so its minimum sits further below the mean.
+const BAND_NOISE_MIN_BIAS = 3.5;
+const BROADBAND_NOISE_MIN_BIAS = 1;
+
+// Samples at or above this are taken as clipped
+const CLIP_LEVEL = 0.98;
+
+// This many identical samples in a row, at least this loud, are a limiter
+// holding the signal down (AGC the browser didn't switch off)
+const FLAT_TOP_RUN = 4;
+const FLAT_TOP_MIN_LEVEL = 0.25;
+
+// Confidence left to a detection whose click clipped the mic
+const CLIPPED_CONFIDENCE = 0.2;
+
+// Recent audio kept for onset refinement and index decoding, at any sample rate
+const RING_BUFFER_SECONDS = 2;
+
+// Normalised correlation the preamble must reach against the mic signal
+const PREAMBLE_MIN_CORRELATION = 0.4;
+
+// Time after the preamble ends in which its echoes are still taken for it,
+// not for a click (ms). Well inside the lead before the first click.
+const PREAMBLE_ECHO_MS = 100;
+
+interface BandEnergy {
+  frequency: number;
+  rms: number;        // RMS of the tone at this frequency in the chunk
+  snr: number;        // Its power over the quieter guard tone's
+  confidence: number; // In-band share of in-band plus guard power (0-1)
+}
+
+export interface ClippingReport {
+  clippedSamples: number; // Samples in the chunk at full scale or held flat by a limiter
+  peak: number;           // Chunk peak (0-1)
+  timestamp: number;      // Elapsed ms of the chunk's last sample
+}
+
+export interface NoiseProfile {
+  broadband: number;                           // Background RMS of the whole capture
+  bands: { frequency: number; rms: number }[]; // Background RMS of the tone at each expected frequency
+  timestamp: number;                           // Elapsed ms of the last chunk measured
+}
+
+export interface ReferenceClick {
+  frequency: number;
+  samples: Float32Array;
+}
+
+/**
+ * Minimum-statistics background estimate for one power series
+ */
+class NoiseTracker {
+  private readonly windowLength: number;
+  private readonly bias: number;
+  private smoothed: number | null = null;
+  private history: number[] = [];
+
+  constructor(windowLength: number, bias: number) {
+    this.windowLength = windowLength;
+    this.bias = bias;
+  }
+
+  update(power: number): void {
+    this.smoothed = this.smoothed === null ? power : NOISE_SMOOTHING * this.smoothed + (1 - NOISE_SMOOTHING) * power;
+    this.history.push(this.smoothed);
+    if (this.history.length > this.windowLength) {
+      this.history.shift();
+    }
+  }
+
+  getRms(): number {
+    return this.history.length > 0 ? Math.sqrt(Math.min(...this.history) * this.bias) : 0;
+  }
+}
+
+export type DetectionCallback = (detection: ClickDetection) => void;
+export type ClippingCallback = (report: ClippingReport) => void;
+export type PreambleCallback = (timestamp: number, correlation: number) => void;
+
+export class ClickDetector {
+  private config: AudioDetectorConfig;
+  private detectionCallback: DetectionCallback | null = null;
+  private clippingCallback: ClippingCallback | null = null;
+  private lastDetectionTime = 0;
+
+  // Background level, overall and at each expected frequency, kept up to date chunk by chunk
+  private broadbandNoise: NoiseTracker;
+  private bandNoise: NoiseTracker[] = [];
+  private noiseTimestamp = 0;
+
+  // Start-of-track preamble being searched for, until it's found
+  private preamble: { reference: Float32Array; energy: number; callback: PreambleCallback } | null = null;
+
+  // The preamble sweeps through the click band, so while it's being searched
+  // for, detections are held until they're too old to lie inside one. Once
+  // found, onsets up to the end of its echoes are dropped.
+  private heldDetections: ClickDetection[] = [];
+  private preambleWindow: { start: number; end: number } | null = null;
+
+  // Clicks as played, matched against the recording to place each onset to the sample
+  private referenceClicks: ReferenceClick[] = [];
+  private offsetCalculator: OffsetCalculator;
+
+  // Detection held back until the whole click, and its index code if any,
+  // has been captured. Samples count from the start of the onset chunk.
+  private pendingDetection: {
+    detection: ClickDetection;
+    onsetChunkLength: number;
+    capturedSamples: number;
+    clippedSamples: number;
+  } | null = null;
+
+  // Ring buffer for recent audio samples
+  private ringBuffer: Float32Array;
+  private ringBufferIndex = 0;
+  private readonly ringBufferSize: number;
+
+  private debugLogCounter = 0;
+
+  constructor(config: Partial<AudioDetectorConfig> = {}) {
+    this.config = { ...DEFAULT_AUDIO_DETECTOR_CONFIG, ...config };
+    this.ringBufferSize = Math.round(this.config.sampleRate * RING_BUFFER_SECONDS);
+    this.ringBuffer = new Float32Array(this.ringBufferSize);
+    this.offsetCalculator = new OffsetCalculator(this.config.sampleRate);
+    this.broadbandNoise = this.createNoiseTracker(BROADBAND_NOISE_MIN_BIAS);
+  }
+
+  /**
+   * Start a new stream: detections go to the callback, and the background
+   * is measured afresh
+   */
+  start(callback: DetectionCallback): void {
+    this.detectionCallback = callback;
+    this.lastDetectionTime = 0;
+    this.pendingDetection = null;
+    this.heldDetections = [];
+    this.preambleWindow = null;
+    this.resetNoiseTracking();
+  }
+
+  /**
+   * End the stream: stop searching for the preamble, and deliver a detection
+   * still waiting on its code, without an index
+   */
+  finish(): void {
+    this.preamble = null;
+    this.releaseHeldDetections(Infinity);
+
+    if (this.pendingDetection) {
+      const { detection, clippedSamples } = this.pendingDetection;
+      if (clippedSamples > 0) this.markClipped(detection);
+      this.deliver(detection);
+      this.pendingDetection = null;
+    }
+  }
+
+  /**
+   * Switch the detection band mid-stream. Background tracking starts over.
+   */
+  setBand(band: Pick<AudioDetectorConfig, 'expectedFrequencies' | 'highPassFrequency' | 'decodeClickIndex'>): void {
+    this.config = { ...this.config, ...band };
+    this.resetNoiseTracking();
+  }
+
+  /**
+   * Search the stream for the track's start-of-track preamble. The callback
+   * gets the elapsed time (ms) at which the preamble began, on the same
+   * timeline as click detections, and fires once.
+   */
+  listenForPreamble(reference: Float32Array, callback: PreambleCallback): void {
+    if (reference.length > this.ringBufferSize / 2) {
+      throw new Error('Preamble is longer than the capture buffer can search');
+    }
+
+    let energy = 0;
+    for (let i = 0; i < reference.length; i++) {
+      energy += reference[i] * reference[i];
+    }
+
+    this.preamble = { reference, energy, callback };
+  }
+
+  /**
+   * Set the clicks the track plays, one per frequency. Each detection is then
+   * matched against the one nearest its frequency and `sampleOffset` set to
+   * the onset it finds: the direct sound's first arrival or the strongest
+   * arrival, as configured. Without references detections stay at chunk
+   * resolution.
+   */
+  setReferenceClicks(references: ReferenceClick[]): void {
+    this.referenceClicks = references;
+  }
+
+  /**
+   * Be told about every chunk in which the input clipped
+   */
+  setClippingCallback(callback: ClippingCallback | null): void {
+    this.clippingCallback = callback;
+  }
+
+  /**
+   * Current background level, overall and at each expected frequency, or
+   * null before the first chunk has been measured. Follows changes in the
+   * room within a couple of seconds, e.g. to warn when it gets noisier mid-run.
+   */
+  getNoiseProfile(): NoiseProfile | null {
+    if (this.bandNoise.length === 0) return null;
+
+    return {
+      broadband: this.broadbandNoise.getRms(),
+      bands: this.config.expectedFrequencies.map((frequency, index) => ({
+        frequency,
+        rms: this.bandNoise[index].getRms(),
+      })),
+      timestamp: this.noiseTimestamp,
+    };
+  }
+
+  /**
+   * Get recent audio samples for cross-correlation
+   */
+  getRecentSamples(durationMs: number): Float32Array {
+    return this.readRingBuffer(Math.floor((durationMs / 1000) * this.config.sampleRate));
+  }
+
+  /**
+   * Take in the next chunk, with the elapsed time (ms) of its last sample
+   */
+  process(samples: Float32Array, elapsed: number): void {
+    // Add to ring buffer
+    for (let i = 0; i < samples.length; i++) {
+      this.ringBuffer[this.ringBufferIndex] = samples[i];
+      this.ringBufferIndex = (this.ringBufferIndex + 1) % this.ringBufferSize;
+    }
+
+    // A clipped click is distorted, throwing off both its band energies and its correlation
+    const clipping = this.measureClipping(samples);
+    if (clipping.clippedSamples > 0) {
+      this.clippingCallback?.({ ...clipping, timestamp: elapsed });
+    }
+
+    if (this.pendingDetection) {
+      this.pendingDetection.capturedSamples += samples.length;
+      this.pendingDetection.clippedSamples += clipping.clippedSamples;
+      this.completePendingDetection();
+    }
+
+    if (this.preamble) {
+      this.searchPreamble(samples.length, elapsed);
+    }
+    if (this.preamble) {
+      // A preamble not found yet starts after the oldest audio just searched
+      const searchedMs = ((this.preamble.reference.length + 2 * samples.length) * 1000) / this.config.sampleRate;
+      this.releaseHeldDetections(elapsed - searchedMs);
+    }
+
+    // Energy at each expected frequency against the background around it,
+    // so broadband or off-frequency noise (voices, appliances) can't pass for a click
+    const bands = this.measureBands(samples);
+    const level = this.computeRMS(samples);
+
+    // Each band's threshold follows its own background, as measured up to
+    // the previous chunk so a click can't raise the bar it has to clear
+    const thresholds = bands.map((_, index) =>
+      Math.max(this.config.onsetThreshold, (this.bandNoise[index]?.getRms() ?? 0) * this.config.noiseThresholdFactor)
+    );
+    this.updateNoise(level, bands, elapsed);
+
+    const best = bands
+      .filter((band, index) => band.rms > thresholds[index] && band.snr >= this.config.minBandSnr)
+      .reduce<BandEnergy | null>((strongest, band) => (!strongest || band.snr > strongest.snr ? band : strongest), null);
+
+    // Debug logging every ~1 second (48000 samples / 2048 buffer = ~23 chunks/sec)
+    this.debugLogCounter++;
+    if (this.debugLogCounter % 23 === 0) {
+      const noise = bands
+        .map(({ frequency }, index) => `${frequency}Hz ${this.bandNoise[index].getRms().toFixed(4)}`)
+        .join(', ');
+      console.log(
+        `[ClickDetector] Level: ${level.toFixed(4)}, background: ${this.broadbandNoise.getRms().toFixed(4)} (${noise})`
+      );
+    }
+
+    if (best) {
+      // Enforce minimum gap between detections
+      if (elapsed - this.lastDetectionTime < this.config.minClickGap) {
+        return;
+      }
+
+      if (this.isInPreamble(elapsed)) {
+        return;
+      }
+
+      console.log(`[ClickDetector] Onset detected! ${best.frequency}Hz at ${best.rms.toFixed(4)}, ${(10 * Math.log10(best.snr)).toFixed(1)} dB over its guard tones`);
+
+      this.lastDetectionTime = elapsed;
+
+      const detection: ClickDetection = {
+        timestamp: elapsed,
+        frequency: best.frequency,
+        confidence: best.confidence,
+        sampleOffset: 0, // Set once the onset is refined
+        bandConfidences: bands.map(({ frequency, confidence }) => ({ frequency, confidence })),
+      };
+
+      if (this.config.decodeClickIndex || this.referenceClicks.length > 0) {
+        // The onset chunk is already in the ring buffer
+        this.pendingDetection = {
+          detection,
+          onsetChunkLength: samples.length,
+          capturedSamples: samples.length,
+          clippedSamples: clipping.clippedSamples,
+        };
+        return;
+      }
+
+      if (clipping.clippedSamples > 0) this.markClipped(detection);
+
+      this.deliver(detection);
+    }
+  }
+
+  // ==================== Private Methods ====================
+
+  private createNoiseTracker(bias: number): NoiseTracker {
+    const chunks = Math.ceil(((NOISE_WINDOW_MS / 1000) * this.config.sampleRate) / CAPTURE_BLOCK_SIZE);
+    return new NoiseTracker(chunks, bias);
+  }
+
+  /**
+   * Forget the background measured so far; estimates build up again from the next chunk
+   */
+  private resetNoiseTracking(): void {
+    this.broadbandNoise = this.createNoiseTracker(BROADBAND_NOISE_MIN_BIAS);
+    this.bandNoise = [];
+    this.noiseTimestamp = 0;
+  }
+
+  /**
+   * Feed a chunk's levels to the background trackers. Clicks pass through
+   * too; taking the minimum over the window keeps them out of the estimate.
+   */
+  private updateNoise(rms: number, bands: BandEnergy[], elapsed: number): void {
+    if (this.bandNoise.length !== bands.length) {
+      this.bandNoise = bands.map(() => this.createNoiseTracker(BAND_NOISE_MIN_BIAS));
+    }
+
+    this.broadbandNoise.update(rms * rms);
+    bands.forEach((band, index) => this.bandNoise[index].update(band.rms * band.rms));
+    this.noiseTimestamp = elapsed;
+  }
+
+  /**
+   * Goertzel filter bank over the expected frequencies, each compared with
+   * guard tones either side of it. The chunk is Hann-windowed first so a
+   * loud hum doesn't leak into the bands next to it.
+   */
+  private measureBands(samples: Float32Array): BandEnergy[] {
+    const { expectedFrequencies, sampleRate } = this.config;
+    const nyquist = sampleRate / 2;
+
+    const windowed = new Float32Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      windowed[i] = samples[i] * 0.5 * (1 - Math.cos((2 * Math.PI * i) / samples.length));
+    }
+
+    return expectedFrequencies.map((frequency) => {
+      const power = goertzelPower(windowed, frequency, sampleRate);
+      const guards = [frequency * (1 - BAND_GUARD_OFFSET), frequency * (1 + BAND_GUARD_OFFSET)]
+        .filter((guard) => guard < nyquist)
+        .map((guard) => goertzelPower(windowed, guard, sampleRate));
+      // The quieter guard, so a hum harmonic next to one side doesn't mask the band
+      const guardPower = guards.length > 0 ? Math.min(...guards) : 0;
+
+      // A tone of amplitude A over N samples has Goertzel power (A·N/2)²,
+      // and the Hann window halves its amplitude
+      const rms = (2 * Math.sqrt(2 * power)) / samples.length;
+      const snr = guardPower > 0 ? power / guardPower : power > 0 ? Infinity : 0;
+
+      return { frequency, rms, snr, confidence: power + guardPower > 0 ? power / (power + guardPower) : 0 };
+    });
+  }
+
+  /**
+   * Refine the held-back detection's onset and decode its index once enough
+   * audio has arrived
+   */
+  private completePendingDetection(): void {
+    if (!this.pendingDetection) return;
+
+    const { detection, onsetChunkLength, capturedSamples, clippedSamples } = this.pendingDetection;
+    const reference = this.getReferenceClick(detection.frequency);
+
+    // The click can run on for its full length past the onset chunk
+    const decodeSamples = this.config.decodeClickIndex
+      ? Math.floor((INDEX_DECODE_WINDOW_MS / 1000) * this.config.sampleRate)
+      : 0;
+    const refineSamples = reference ? onsetChunkLength + reference.length : 0;
+    if (capturedSamples < Math.max(decodeSamples, refineSamples)) return;
+
+    this.pendingDetection = null;
+
+    if (reference) {
+      this.refineOnset(detection, reference, onsetChunkLength, capturedSamples);
+    }
+
+    if (clippedSamples > 0) {
+      this.markClipped(detection);
+    }
+
+    if (this.config.decodeClickIndex) {
+      const clickIndex = decodeIndexCode(this.readRingBuffer(capturedSamples), this.config.sampleRate);
+      if (clickIndex !== null) {
+        detection.clickIndex = clickIndex;
+      } else {
+        console.log('[ClickDetector] Could not decode click index');
+      }
+    }
+
+    this.deliver(detection);
+  }
+
+  /**
+   * Hand a finished detection on, or hold it while it could still turn out
+   * to be the preamble
+   */
+  private deliver(detection: ClickDetection): void {
+    if (this.preamble) {
+      this.heldDetections.push(detection);
+      return;
+    }
+
+    console.log('[ClickDetector] Click detected:', detection);
+    this.detectionCallback?.(detection);
+  }
+
+  /**
+   * Deliver held detections from before `time` (ms), dropping those inside the preamble
+   */
+  private releaseHeldDetections(time: number): void {
+    const released = this.heldDetections.filter((detection) => detection.timestamp < time);
+    this.heldDetections = this.heldDetections.filter((detection) => detection.timestamp >= time);
+
+    for (const detection of released) {
+      if (this.isInPreamble(detection.timestamp)) {
+        console.log(`[ClickDetector] Dropped onset at ${detection.timestamp.toFixed(1)}ms inside the preamble`);
+        continue;
+      }
+      console.log('[ClickDetector] Click detected:', detection);
+      this.detectionCallback?.(detection);
+    }
+  }
+
+  private isInPreamble(time: number): boolean {
+    return this.preambleWindow !== null && time >= this.preambleWindow.start && time <= this.preambleWindow.end;
+  }
+
+  /**
+   * Place the click in the audio around the onset chunk, both where the
+   * matched filter finds its strongest arrival and where its envelope first
+   * rises, and set `sampleOffset` to the configured one. Offsets are in
+   * samples from the detection timestamp (the end of the onset chunk);
+   * window positions below count from the start of the window.
+   */
+  private refineOnset(
+    detection: ClickDetection,
+    reference: Float32Array,
+    onsetChunkLength: number,
+    capturedSamples: number
+  ): void {
+    // The chunk before the onset chunk stayed under the threshold, so the
+    // click starts at most one click length ahead of the onset chunk
+    const lookback = Math.max(reference.length, onsetChunkLength);
+    const onsetChunkEnd = lookback + onsetChunkLength;
+
+    // Up to the end of the click, short of any index code that follows it
+    const window = this.readRingBuffer(lookback + capturedSamples).subarray(0, onsetChunkEnd + reference.length);
+
+    const toOffset = (offsetMs: number): number | undefined => {
+      const clickStart = (offsetMs / 1000) * this.config.sampleRate;
+      return clickStart >= 0 && clickStart <= onsetChunkEnd ? clickStart - onsetChunkEnd : undefined;
+    };
+
+    const peak = this.offsetCalculator.calculateOffset(reference, window);
+    detection.energyPeakOffset = toOffset(peak.offsetMs);
+
+    // Searched from a little ahead of the strongest arrival, which the direct sound can't be far before
+    const firstArrival = this.offsetCalculator.calculateFirstArrival(
+      reference,
+      window,
+      detection.frequency,
+      this.config.firstArrivalThreshold,
+      peak.offsetMs - FIRST_ARRIVAL_MAX_LEAD_MS
+    );
+    detection.firstArrivalOffset = toOffset(firstArrival.offsetMs);
+
+    const sampleOffset = this.config.firstArrival ? detection.firstArrivalOffset : detection.energyPeakOffset;
+    if (sampleOffset === undefined) {
+      console.log('[ClickDetector] Onset refinement out of range, keeping chunk timing');
+      return;
+    }
+
+    detection.sampleOffset = sampleOffset;
+
+    // Level of the click as it arrived, less the background, for telling
+    // distance from how much it has dropped
+    const clickStart = Math.round(onsetChunkEnd + sampleOffset);
+    const clickRms = this.computeRMS(window.subarray(clickStart, clickStart + reference.length));
+    detection.level = Math.sqrt(Math.max(clickRms * clickRms - this.broadbandNoise.getRms() ** 2, 0));
+
+    const toMs = (samples: number | undefined) =>
+      samples === undefined ? 'n/a' : `${((samples * 1000) / this.config.sampleRate).toFixed(2)}ms`;
+    console.log(
+      `[ClickDetector] Onset refined: first arrival ${toMs(detection.firstArrivalOffset)}, ` +
+      `energy peak ${toMs(detection.energyPeakOffset)} (confidence ${peak.confidence.toFixed(2)})`
+    );
+  }
+
+  /**
+   * Count the samples at full scale, and those in flat runs that give away
+   * a limiter holding the signal below it
+   */
+  private measureClipping(samples: Float32Array): { clippedSamples: number; peak: number } {
+    let clippedSamples = 0;
+    let peak = 0;
+    let run = 1;
+
+    for (let i = 0; i < samples.length; i++) {
+      const level = Math.abs(samples[i]);
+      peak = Math.max(peak, level);
+
+      run = i > 0 && samples[i] === samples[i - 1] && level >= FLAT_TOP_MIN_LEVEL ? run + 1 : 1;
+      if (level >= CLIP_LEVEL) {
+        clippedSamples++;
+      } else if (run >= FLAT_TOP_RUN) {
+        // The whole run counts once it's long enough
+        clippedSamples += run === FLAT_TOP_RUN ? FLAT_TOP_RUN : 1;
+      }
+    }
+
+    return { clippedSamples, peak };
+  }
+
+  private markClipped(detection: ClickDetection): void {
+    detection.clipped = true;
+    detection.confidence = Math.min(detection.confidence, CLIPPED_CONFIDENCE);
+    console.log(`[ClickDetector] Click at ${detection.timestamp.toFixed(0)}ms clipped the mic`);
+  }
+
+  /**
+   * Reference click closest to a detected frequency
+   */
+  private getReferenceClick(frequency: number): Float32Array | null {
+    let closest: ReferenceClick | null = null;
+    for (const reference of this.referenceClicks) {
+      if (!closest || Math.abs(reference.frequency - frequency) < Math.abs(closest.frequency - frequency)) {
+        closest = reference;
+      }
+    }
+    return closest?.samples ?? null;
+  }
+
+  /**
+   * Matched-filter the newest audio against the preamble. Every start
+   * position whose full preamble has arrived since the last chunk is checked,
+   * and the best-scoring one is taken if its normalised correlation is high
+   * enough and the start after it has been checked too.
+   */
+  private searchPreamble(chunkLength: number, elapsed: number): void {
+    if (!this.preamble) return;
+
+    const { reference, energy, callback } = this.preamble;
+    const windowLength = reference.length + 2 * chunkLength;
+    const window = this.readRingBuffer(windowLength);
+    const correlation = fftCrossCorrelate(reference, window);
+    const lastStart = windowLength - reference.length;
+
+    // Running window energy for normalisation
+    let segmentEnergy = 0;
+    for (let i = 0; i < reference.length; i++) {
+      segmentEnergy += window[i] * window[i];
+    }
+
+    let best = -1;
+    let bestScore = PREAMBLE_MIN_CORRELATION;
+    for (let start = 0; start <= lastStart; start++) {
+      if (start > 0) {
+        const leaving = window[start - 1];
+        const entering = window[start + reference.length - 1];
+        segmentEnergy += entering * entering - leaving * leaving;
+      }
+
+      const norm = Math.sqrt(energy * Math.max(segmentEnergy, 0));
+      const score = norm > 0 ? Math.abs(correlation[start]) / norm : 0;
+      if (score > bestScore) {
+        best = start;
+        bestScore = score;
+      }
+    }
+
+    if (best < 0) return;
+
+    // Only accept a peak whose neighbours have arrived too
+    if (best === lastStart) return;
+
+    this.preamble = null;
+
+    const { sampleRate } = this.config;
+    const timestamp = elapsed - ((windowLength - best) * 1000) / sampleRate;
+    console.log(`[ClickDetector] Preamble found at ${timestamp.toFixed(1)}ms (correlation ${bestScore.toFixed(2)})`);
+
+    // Onsets the preamble itself set off are not clicks
+    this.preambleWindow = { start: timestamp, end: timestamp + (reference.length * 1000) / sampleRate + PREAMBLE_ECHO_MS };
+    if (this.pendingDetection && this.isInPreamble(this.pendingDetection.detection.timestamp)) {
+      this.pendingDetection = null;
+    }
+    this.releaseHeldDetections(Infinity);
+
+    callback(timestamp, bestScore);
+  }
+
+  private computeRMS(samples: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) {
+      sum += samples[i] * samples[i];
+    }
+    return Math.sqrt(sum / samples.length);
+  }
+
+  private readRingBuffer(numSamples: number): Float32Array {
+    const samples = new Float32Array(numSamples);
+
+    let readIndex = (this.ringBufferIndex - numSamples + this.ringBufferSize) % this.ringBufferSize;
+
+    for (let i = 0; i < numSamples; i++) {
+      samples[i] = this.ringBuffer[readIndex];
+      readIndex = (readIndex + 1) % this.ringBufferSize;
+    }
+
+    return samples;
+  }
+}
+
+// Factory function
+export function createClickDetector(config?: Partial<AudioDetectorConfig>): ClickDetector {
+  return new ClickDetector(config);
+}
@@ -0,0 +1,155 @@
+/**
+ * Click Index Code
+ * DTMF-style two-tone code appended after each click carrying its sequence
+ * number, so detections can be matched to clicks without guessing
+ *
+ * Each index is sent as two base-16 symbols (high digit first). A symbol is
+ * one tone from the low group plus one from the high group. The tone groups
+ * sit between the click frequencies so the code never passes for a click.
+ */
+
+export const INDEX_CODE_LOW_TONES = [650, 720, 790, 860];
+export const INDEX_CODE_HIGH_TONES = [1250, 1400, 1550, 1700];
+
+export const INDEX_CODE_GAP_MS = 30;        // Silence between click and first symbol
+export const INDEX_CODE_SYMBOL_MS = 40;     // Length of each symbol
+export const INDEX_CODE_SYMBOL_GAP_MS = 40; // Silence between symbols
+export const INDEX_CODE_MAX_INDEX = 255;    // Two base-16 symbols
+
+// Analysis frames for decoding
+const FRAME_MS = 30;
+const HOP_MS = 10;
+const MIN_RUN_FRAMES = 2;
+const TONE_DOMINANCE = 4;     // Winning tone must beat the runner-up in its group by this power ratio
+const MIN_TONE_FRACTION = 0.3; // Both tones together must carry this share of the frame energy
+
+/**
+ * Time from the end of the click to the end of the code in ms
+ */
+export function getIndexCodeDuration(): number {
+  return INDEX_CODE_GAP_MS + 2 * INDEX_CODE_SYMBOL_MS + INDEX_CODE_SYMBOL_GAP_MS;
+}
+
+/**
+ * Render the code for `clickIndex` into `channel`, starting right after a click
+ * that ends at `clickEndSample`. Tone amplitude is split evenly between the pair.
+ */
+export function renderIndexCode(
+  channel: Float32Array,
+  clickEndSample: number,
+  clickIndex: number,
+  amplitude: number,
+  sampleRate: number
+): void {
+  if (clickIndex < 0 || clickIndex > INDEX_CODE_MAX_INDEX) {
+    throw new Error(`Click index ${clickIndex} cannot be encoded (0-${INDEX_CODE_MAX_INDEX})`);
+  }
+
+  const symbolSamples = Math.floor((INDEX_CODE_SYMBOL_MS / 1000) * sampleRate);
+  const symbols = [clickIndex >> 4, clickIndex & 0xf];
+
+  symbols.forEach((symbol, position) => {
+    const startMs = INDEX_CODE_GAP_MS + position * (INDEX_CODE_SYMBOL_MS + INDEX_CODE_SYMBOL_GAP_MS);
+    const startSample = clickEndSample + Math.floor((startMs / 1000) * sampleRate);
+    const lowTone = INDEX_CODE_LOW_TONES[symbol >> 2];
+    const highTone = INDEX_CODE_HIGH_TONES[symbol & 3];
+
+    for (let i = 0; i < symbolSamples; i++) {
+      const sampleIndex = startSample + i;
+      if (sampleIndex >= channel.length) break;
+
+      const envelope = 0.5 * (1 - Math.cos((2 * Math.PI * i) / symbolSamples));
+      const t = i / sampleRate;
+      channel[sampleIndex] =
+        0.5 * amplitude * envelope * (Math.sin(2 * Math.PI * lowTone * t) + Math.sin(2 * Math.PI * highTone * t));
+    }
+  });
+}
+
+/**
+ * Decode the click index from audio covering a click and its code.
+ * Returns null when two clean symbols can't be found.
+ */
+export function decodeIndexCode(samples: Float32Array, sampleRate: number): number | null {
+  const frameSamples = Math.floor((FRAME_MS / 1000) * sampleRate);
+  const hopSamples = Math.floor((HOP_MS / 1000) * sampleRate);
+
+  // Classify each frame as a symbol or nothing
+  const frames: Array<number | null> = [];
+  for (let start = 0; start + frameSamples <= samples.length; start += hopSamples) {
+    frames.push(classifyFrame(samples.subarray(start, start + frameSamples), sampleRate));
+  }
+
+  // Collapse frames into runs of the same symbol
+  const runs: number[] = [];
+  let current: number | null = null;
+  let runLength = 0;
+
+  for (const frame of [...frames, null]) {
+    if (frame === current) {
+      runLength++;
+      continue;
+    }
+    if (current !== null && runLength >= MIN_RUN_FRAMES) {
+      runs.push(current);
+    }
+    current = frame;
+    runLength = 1;
+  }
+
+  if (runs.length < 2) return null;
+  return (runs[0] << 4) | runs[1];
+}
+
+function classifyFrame(frame: Float32Array, sampleRate: number): number | null {
+  let frameEnergy = 0;
+  for (let i = 0; i < frame.length; i++) {
+    frameEnergy += frame[i] * frame[i];
+  }
+  if (frameEnergy === 0) return null;
+
+  const low = strongestTone(frame, INDEX_CODE_LOW_TONES, sampleRate);
+  const high = strongestTone(frame, INDEX_CODE_HIGH_TONES, sampleRate);
+  if (!low || !high) return null;
+
+  // A tone of amplitude A has Goertzel power (A·N/2)² and energy A²·N/2
+  const toneEnergy = ((low.power + high.power) * 2) / frame.length;
+  if (toneEnergy < MIN_TONE_FRACTION * frameEnergy) return null;
+
+  return (low.index << 2) | high.index;
+}
+
+function strongestTone(
+  frame: Float32Array,
+  tones: number[],
+  sampleRate: number
+): { index: number; power: number } | null {
+  const powers = tones.map((tone) => goertzelPower(frame, tone, sampleRate));
+
+  let best = 0;
+  for (let i = 1; i < powers.length; i++) {
+    if (powers[i] > powers[best]) best = i;
+  }
+
+  const runnerUp = Math.max(...powers.filter((_, i) => i !== best));
+  if (powers[best] < TONE_DOMINANCE * runnerUp) return null;
+
+  return { index: best, power: powers[best] };
+}
+
+/**
+ * Signal power at a single frequency (Goertzel algorithm)
+ */
+export function goertzelPower(samples: Float32Array, frequency: number, sampleRate: number): number {
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const s0 = samples[i] + coefficient * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+
+  return s1 * s1 + s2 * s2 - coefficient * s1 * s2;
+}
@@ -3,6 +3,35 @@
  * Generates a calibration click track with rotating frequencies for accurate detection
  */
 
+import { fftConvolve } from './fft';
+import { encodeFlac } from './flac';
+import { renderIndexCode } from './ClickIndexCode';
+import type { CalibrationConfig, ProbeBand } from '../types';
+
+/**
+ * Probe signal emitted at each click position
+ * - click: Hann-windowed sine burst at the rotating frequency
+ * - mls: one period of a maximum-length sequence (pseudo-random ±1)
+ * - sweep: a single Farina-style exponential sine sweep at the start of the track
+ * - code: a per-player Kasami signature code, so several players can play at once;
+ *   the first repetition is inverted to mark where they start
+ * - chirp: a short linear FM chirp that pulse-compresses to a sharp correlation peak
+ * - ramp: steady tones rising in level step by step, for setting the player volume
+ */
+export type ProbeSignalType = 'click' | 'mls' | 'sweep' | 'code' | 'chirp' | 'ramp';
+
+/**
+ * Sample encoding of exported track files. FLAC supports pcm16 and pcm24.
+ */
+export type SampleFormat = 'pcm16' | 'pcm24' | 'pcm32' | 'float32';
+
+const BITS_PER_SAMPLE: Record<SampleFormat, number> = {
+  pcm16: 16,
+  pcm24: 24,
+  pcm32: 32,
+  float32: 32,
+};
+
 export interface ClickTrackConfig {
   sampleRate: number;       // Audio sample rate (default: 48000)
   totalDuration: number;    // Total duration in seconds (default: 20)
@@ -10,8 +39,54 @@ export interface ClickTrackConfig {
   clickInterval: number;    // Time between clicks in ms (default: 1000)
   frequencies: number[];    // Click frequencies to rotate through
   amplitude: number;        // Click amplitude 0-1 (default: 0.8)
+  signalType: ProbeSignalType; // Probe signal shape (default: 'click')
+  mlsOrder: number;         // MLS register length in bits, period is 2^order - 1 samples (default: 12)
+  sweepStartFrequency: number; // Exponential sweep start in Hz (default: 100)
+  sweepEndFrequency: number;   // Exponential sweep end in Hz (default: 16000)
+  sweepDuration: number;       // Exponential sweep length in ms (default: 5000)
+  codeIndex: number;        // Kasami code assigned to this track, 0 to 2^(mlsOrder/2) - 1 (default: 0)
+  chirpStartFrequency: number; // Linear chirp start in Hz (default: 500)
+  chirpEndFrequency: number;   // Linear chirp end in Hz (default: 6000)
+  chirpDuration: number;       // Linear chirp length in ms (default: 50)
+  encodeIndex: boolean;     // Append a two-tone code carrying each click's index (default: false)
+  channels: number;         // Output channel count, every channel carries the same probe (default: 2)
+  sampleFormat: SampleFormat; // Sample encoding of exported files (default: 'pcm16')
+  preamble: boolean;        // Open the track with a long chirp marking t=0 (default: false)
+  preambleDuration: number; // Preamble chirp length in ms (default: 250)
+  preambleLead: number;     // Time from the preamble start to the first click in ms (default: 1000)
+  preambleStartFrequency: number; // Preamble chirp start in Hz (default: 6000)
+  preambleEndFrequency: number;   // Preamble chirp end in Hz (default: 500)
+  rampStepDb: number;       // Level rise between ramp steps in dB, the last step plays at full amplitude (default: 6)
+}
+
+/**
+ * One click of a track's schedule, as published in its manifest
+ */
+export interface ClickTrackManifestEntry {
+  index: number;        // Click sequence number, as carried by its index code
+  time: number;         // Click start in ms from the start of the track
+  sampleIndex: number;  // Click start in samples at the track's sample rate
+  frequency: number;    // Click frequency in Hz (sweep start frequency for sweeps)
+}
+
+/**
+ * Timing manifest written next to a track file, so the analyser can check it
+ * expects exactly the schedule the player is playing
+ */
+export interface ClickTrackManifest {
+  version: number;
+  sampleRate: number;
+  shape: ProbeSignalType;
+  probeDuration: number;    // Length of each probe in ms
+  config: ClickTrackConfig; // Full config the track was rendered from
+  clicks: ClickTrackManifestEntry[];
 }
 
+export const CLICK_TRACK_MANIFEST_VERSION = 1;
+
+// Schedule times are compared with this tolerance in ms
+const MANIFEST_TIME_TOLERANCE_MS = 1e-6;
+
 export const DEFAULT_CLICK_TRACK_CONFIG: ClickTrackConfig = {
   sampleRate: 48000,
   totalDuration: 20,
@@ -19,8 +94,291 @@ export const DEFAULT_CLICK_TRACK_CONFIG: ClickTrackConfig = {
   clickInterval: 1000,
   frequencies: [500, 1000, 2000, 3000], // Optimized for smartphone mics
   amplitude: 0.8,
+  signalType: 'click',
+  mlsOrder: 12, // 4095 samples, ~85ms at 48kHz
+  sweepStartFrequency: 100,
+  sweepEndFrequency: 16000,
+  sweepDuration: 5000,
+  codeIndex: 0,
+  chirpStartFrequency: 500,
+  chirpEndFrequency: 6000, // 5.5kHz bandwidth compresses to a ~0.2ms peak
+  chirpDuration: 50,       // Same length, and so energy, as a sine click
+  encodeIndex: false,
+  channels: 2,
+  sampleFormat: 'pcm16',
+  preamble: false,
+  preambleDuration: 250,  // 5x a click, so it can't pass for one
+  preambleLead: 1000,     // Leaves the preamble's echoes a full click interval to die down
+  preambleStartFrequency: 6000, // Falling, unlike the rising chirp probes
+  preambleEndFrequency: 500,
+  rampStepDb: 6,
 };
 
+/**
+ * Near-ultrasonic click frequencies (17-20 kHz band): barely audible to most
+ * adults, yet still reproduced by many speakers and phone mics at 48kHz
+ */
+export const NEAR_ULTRASONIC_FREQUENCIES = [17500, 18000, 18500, 19000];
+export const NEAR_ULTRASONIC_BAND: [number, number] = [17000, 20000];
+
+/**
+ * Click track settings for a calibration session. The session and the track
+ * generation command both derive their tracks from this, so they can't drift.
+ */
+export function getSessionTrackConfig(
+  config: CalibrationConfig,
+  band: ProbeBand = 'audible',
+  codeIndex?: number
+): Partial<ClickTrackConfig> {
+  const trackConfig: Partial<ClickTrackConfig> = {
+    sampleRate: config.sampleRate,
+    frequencies: config.frequencies,
+    clickDuration: 50, // 50ms for reliable detection
+    clickInterval: config.clickIntervalMs,
+    totalDuration: (config.totalClicks * config.clickIntervalMs) / 1000,
+    encodeIndex: config.encodeClickIndex,
+    preamble: config.preamble,
+  };
+
+  if (codeIndex !== undefined) {
+    // Code arrivals are found in the full recording, numbered from the
+    // track's inverted first code rather than from a preamble
+    return { ...trackConfig, signalType: 'code', codeIndex, preamble: false };
+  }
+
+  if (band === 'near_ultrasonic') {
+    // Index codes are audible, so near-ultrasonic tracks go without them,
+    // and the preamble has to pass the same high-pass as the clicks
+    return {
+      ...trackConfig,
+      frequencies: NEAR_ULTRASONIC_FREQUENCIES,
+      encodeIndex: false,
+      preambleStartFrequency: Math.max(...NEAR_ULTRASONIC_FREQUENCIES),
+      preambleEndFrequency: Math.min(...NEAR_ULTRASONIC_FREQUENCIES),
+    };
+  }
+  return trackConfig;
+}
+
+// Level ramp layout: 8 steps 6 dB apart cover -42 to 0 dB in 4 seconds
+const LEVEL_RAMP_STEPS = 8;
+const LEVEL_RAMP_STEP_MS = 500;
+const LEVEL_RAMP_TONE_MS = 400;
+
+/**
+ * Level ramp played before calibration to pick the player volume: a tone
+ * from the middle of the click frequencies, rising to the clicks' amplitude.
+ * The preamble places every step in the recording.
+ */
+export function getLevelRampTrackConfig(config: CalibrationConfig, band: ProbeBand = 'audible'): Partial<ClickTrackConfig> {
+  const trackConfig = getSessionTrackConfig(config, band);
+  const frequencies = trackConfig.frequencies ?? config.frequencies;
+
+  return {
+    ...trackConfig,
+    signalType: 'ramp',
+    frequencies: [frequencies[Math.floor(frequencies.length / 2)]],
+    clickDuration: LEVEL_RAMP_TONE_MS,
+    clickInterval: LEVEL_RAMP_STEP_MS,
+    totalDuration: (LEVEL_RAMP_STEPS * LEVEL_RAMP_STEP_MS) / 1000,
+    encodeIndex: false,
+    preamble: true,
+  };
+}
+
+// Loopback layout: 8 clicks, far enough apart for a slow phone output path
+// to bring each one back before the next
+const LOOPBACK_CLICKS = 8;
+const LOOPBACK_CLICK_INTERVAL_MS = 600;
+const LOOPBACK_AMPLITUDE = 0.25;
+
+/**
+ * Clicks played from the phone's own speaker to measure its mic latency.
+ * The speaker sits right next to the mic, so they play quieter than usual.
+ */
+export function getLoopbackTrackConfig(config: CalibrationConfig): Partial<ClickTrackConfig> {
+  return {
+    ...getSessionTrackConfig(config),
+    clickInterval: LOOPBACK_CLICK_INTERVAL_MS,
+    totalDuration: (LOOPBACK_CLICKS * LOOPBACK_CLICK_INTERVAL_MS) / 1000,
+    amplitude: LOOPBACK_AMPLITUDE,
+    encodeIndex: false,
+    preamble: false,
+  };
+}
+
+// Fade applied to both ends of a sweep or ramp tone to avoid broadband clicks
+const SWEEP_FADE_MS = 10;
+
+// Fraction of a chirp tapered at each end (Tukey window) to keep sidelobes low
+const CHIRP_TAPER = 0.1;
+
+/**
+ * Feedback taps (1-indexed bit positions) of primitive polynomials,
+ * giving a maximal period of 2^order - 1 for each register length
+ */
+const MLS_TAPS: Record<number, number[]> = {
+  2: [2, 1],
+  3: [3, 2],
+  4: [4, 3],
+  5: [5, 3],
+  6: [6, 5],
+  7: [7, 6],
+  8: [8, 6, 5, 4],
+  9: [9, 5],
+  10: [10, 7],
+  11: [11, 9],
+  12: [12, 6, 4, 1],
+  13: [13, 4, 3, 1],
+  14: [14, 5, 3, 1],
+  15: [15, 14],
+  16: [16, 15, 13, 4],
+  17: [17, 14],
+  18: [18, 11],
+  19: [19, 6, 2, 1],
+  20: [20, 17],
+};
+
+/**
+ * Generate one period of a maximum-length sequence as ±1 samples
+ * using a Fibonacci linear feedback shift register
+ */
+export function generateMLS(order: number): Float32Array {
+  const taps = MLS_TAPS[order];
+  if (!taps) {
+    throw new Error(`Unsupported MLS order: ${order} (must be 2-20)`);
+  }
+
+  const length = (1 << order) - 1;
+  const sequence = new Float32Array(length);
+  let register = 1;
+
+  for (let i = 0; i < length; i++) {
+    sequence[i] = register & 1 ? 1 : -1;
+
+    let feedback = 0;
+    for (const tap of taps) {
+      feedback ^= (register >> (order - tap)) & 1;
+    }
+    register = (register >> 1) | (feedback << (order - 1));
+  }
+
+  return sequence;
+}
+
+/**
+ * Number of distinct Kasami codes available for an MLS order
+ */
+export function getKasamiCodeCount(order: number): number {
+  return order % 2 === 0 ? 1 << (order / 2) : 0;
+}
+
+/**
+ * Generate a code from the small Kasami set as ±1 samples.
+ * Code 0 is the base m-sequence u; code k XORs u with the decimated
+ * sequence w = u[q·i] (q = 2^(order/2) + 1) shifted by k - 1.
+ * Cross-correlation between any two codes stays near 2^(order/2) / 2^order,
+ * so each player's code can be picked out of a mix of all of them.
+ */
+export function generateKasamiCode(order: number, index: number): Float32Array {
+  const codeCount = getKasamiCodeCount(order);
+  if (codeCount === 0) {
+    throw new Error(`Kasami codes need an even MLS order, got ${order}`);
+  }
+  if (index < 0 || index >= codeCount) {
+    throw new Error(`Kasami code index ${index} out of range (0-${codeCount - 1})`);
+  }
+
+  const base = generateMLS(order);
+  if (index === 0) return base;
+
+  const length = base.length;
+  const decimation = (1 << (order / 2)) + 1;
+  const decimatedPeriod = (1 << (order / 2)) - 1;
+  const code = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    // In ±1 form, XOR of two bits is the product of their samples
+    const decimated = base[(((i + index - 1) % decimatedPeriod) * decimation) % length];
+    code[i] = base[i] * decimated;
+  }
+
+  return code;
+}
+
+/**
+ * Generate an exponential (logarithmic) sine sweep:
+ *   x(t) = sin(2π·f1·L·(e^(t/L) - 1)),  L = T / ln(f2/f1)
+ * Both ends are faded to keep the sweep free of onset clicks.
+ */
+export function generateExponentialSweep(
+  startFrequency: number,
+  endFrequency: number,
+  durationMs: number,
+  sampleRate: number
+): Float32Array {
+  const numSamples = Math.floor((durationMs / 1000) * sampleRate);
+  const rate = getSweepRate(startFrequency, endFrequency, durationMs);
+  const fadeSamples = Math.min(Math.floor((SWEEP_FADE_MS / 1000) * sampleRate), Math.floor(numSamples / 2));
+  const sweep = new Float32Array(numSamples);
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / sampleRate;
+    let sample = Math.sin(2 * Math.PI * startFrequency * rate * (Math.exp(t / rate) - 1));
+
+    // Half-Hann fade in and out
+    if (i < fadeSamples) {
+      sample *= 0.5 * (1 - Math.cos((Math.PI * i) / fadeSamples));
+    } else if (i >= numSamples - fadeSamples) {
+      sample *= 0.5 * (1 - Math.cos((Math.PI * (numSamples - 1 - i)) / fadeSamples));
+    }
+
+    sweep[i] = sample;
+  }
+
+  return sweep;
+}
+
+/**
+ * Generate a linear FM chirp:
+ *   x(t) = sin(2π·(f0·t + (f1 - f0)·t² / 2T))
+ * with a Tukey window so the matched filter output has low sidelobes
+ */
+export function generateLinearChirp(
+  startFrequency: number,
+  endFrequency: number,
+  durationMs: number,
+  sampleRate: number
+): Float32Array {
+  const numSamples = Math.floor((durationMs / 1000) * sampleRate);
+  const duration = durationMs / 1000;
+  const sweepRate = (endFrequency - startFrequency) / duration;
+  const taperSamples = Math.max(1, Math.floor((CHIRP_TAPER * numSamples) / 2));
+  const chirp = new Float32Array(numSamples);
+
+  for (let i = 0; i < numSamples; i++) {
+    const t = i / sampleRate;
+    let sample = Math.sin(2 * Math.PI * (startFrequency * t + 0.5 * sweepRate * t * t));
+
+    if (i < taperSamples) {
+      sample *= 0.5 * (1 - Math.cos((Math.PI * i) / taperSamples));
+    } else if (i >= numSamples - taperSamples) {
+      sample *= 0.5 * (1 - Math.cos((Math.PI * (numSamples - 1 - i)) / taperSamples));
+    }
+
+    chirp[i] = sample;
+  }
+
+  return chirp;
+}
+
+/**
+ * Sweep rate constant L (seconds per e-fold of frequency)
+ */
+export function getSweepRate(startFrequency: number, endFrequency: number, durationMs: number): number {
+  return durationMs / 1000 / Math.log(endFrequency / startFrequency);
+}
+
 export class ClickTrackGenerator {
   private config: ClickTrackConfig;
 
@@ -32,36 +390,151 @@ export class ClickTrackGenerator {
    * Generate an AudioBuffer containing the click track
    */
   generateAudioBuffer(audioContext: AudioContext): AudioBuffer {
-    const { sampleRate, totalDuration, clickDuration, clickInterval, frequencies, amplitude } = this.config;
+    const { sampleRate, channels } = this.config;
 
-    const totalSamples = sampleRate * totalDuration;
-    const buffer = audioContext.createBuffer(2, totalSamples, sampleRate);
+    const totalSamples = this.getTrackSamples();
+    const buffer = audioContext.createBuffer(channels, totalSamples, sampleRate);
 
-    const leftChannel = buffer.getChannelData(0);
-    const rightChannel = buffer.getChannelData(1);
+    this.renderTrack(Array.from({ length: channels }, (_, c) => buffer.getChannelData(c)));
+
+    return buffer;
+  }
+
+  /**
+   * Render every probe of the track into the given channels
+   */
+  private renderTrack(channels: Float32Array[]): void {
+    const { sampleRate, totalDuration, clickDuration, clickInterval, frequencies, amplitude, signalType, encodeIndex } = this.config;
 
     const clickSamples = Math.floor((clickDuration / 1000) * sampleRate);
     const intervalSamples = Math.floor((clickInterval / 1000) * sampleRate);
     const numClicks = Math.floor(totalDuration * 1000 / clickInterval);
+    const firstClickSample = this.getFirstClickSample();
+
+    if (this.config.preamble) {
+      this.writeProbe(channels, 0, this.generatePreamble());
+    }
+
+    if (signalType === 'sweep') {
+      const sweep = this.generateReferenceClick(0);
+      console.log(`[ClickTrack] Generating exponential sweep, ${sweep.length} samples`);
+
+      this.writeProbe(channels, firstClickSample, sweep);
+      return;
+    }
+
+    if (signalType === 'ramp') {
+      const levels = this.getRampStepLevels();
+      console.log(`[ClickTrack] Generating ${numClicks}-step level ramp, ${this.config.rampStepDb} dB apart`);
+
+      for (let clickIndex = 0; clickIndex < numClicks; clickIndex++) {
+        const tone = this.generateReferenceClick(frequencies[clickIndex % frequencies.length]);
+        const gain = Math.pow(10, levels[clickIndex] / 20);
+        for (let i = 0; i < tone.length; i++) {
+          tone[i] *= gain;
+        }
+        this.writeProbe(channels, firstClickSample + clickIndex * intervalSamples, tone);
+      }
+      return;
+    }
+
+    if (signalType === 'mls' || signalType === 'code' || signalType === 'chirp') {
+      const probe = this.generateReferenceClick(0);
+      console.log(`[ClickTrack] Generating ${numClicks} ${signalType} probes, ${probe.length} samples each`);
+
+      // A code track marks where its repetitions start by playing the first one inverted
+      if (signalType === 'code' && numClicks > 0) {
+        this.writeProbe(channels, firstClickSample, probe.map((sample) => -sample));
+      }
+
+      const firstProbe = signalType === 'code' ? 1 : 0;
+      for (let clickIndex = firstProbe; clickIndex < numClicks; clickIndex++) {
+        this.writeProbe(channels, firstClickSample + clickIndex * intervalSamples, probe);
+      }
+      return;
+    }
 
     console.log(`[ClickTrack] Generating ${numClicks} clicks, ${clickSamples} samples each`);
 
     for (let clickIndex = 0; clickIndex < numClicks; clickIndex++) {
-      const startSample = clickIndex * intervalSamples;
+      const startSample = firstClickSample + clickIndex * intervalSamples;
       const frequency = frequencies[clickIndex % frequencies.length];
 
-      this.generateClick(leftChannel, rightChannel, startSample, clickSamples, frequency, amplitude, sampleRate);
+      this.generateClick(channels, startSample, clickSamples, frequency, amplitude, sampleRate);
+
+      if (encodeIndex) {
+        for (const channel of channels) {
+          renderIndexCode(channel, startSample + clickSamples, clickIndex, amplitude, sampleRate);
+        }
+      }
     }
+  }
 
-    return buffer;
+  /**
+   * Copy a pre-rendered probe into every channel
+   */
+  private writeProbe(channels: Float32Array[], startSample: number, probe: Float32Array): void {
+    for (let i = 0; i < probe.length; i++) {
+      const sampleIndex = startSample + i;
+      if (sampleIndex >= channels[0].length) break;
+
+      for (const channel of channels) {
+        channel[sampleIndex] = probe[i];
+      }
+    }
+  }
+
+  /**
+   * Start-of-track preamble: a long tapered chirp whose matched-filter peak
+   * marks track time 0, so every click's arrival is known once it's heard
+   */
+  generatePreamble(): Float32Array {
+    const { sampleRate, amplitude, preambleStartFrequency, preambleEndFrequency, preambleDuration } = this.config;
+
+    const preamble = generateLinearChirp(preambleStartFrequency, preambleEndFrequency, preambleDuration, sampleRate);
+    for (let i = 0; i < preamble.length; i++) {
+      preamble[i] *= amplitude;
+    }
+    return preamble;
+  }
+
+  /**
+   * Level of each ramp step in dB relative to the click amplitude,
+   * rising to 0 dB at the last step
+   */
+  getRampStepLevels(): number[] {
+    const { totalDuration, clickInterval, rampStepDb } = this.config;
+    const numSteps = Math.floor(totalDuration * 1000 / clickInterval);
+    return Array.from({ length: numSteps }, (_, step) => -(numSteps - 1 - step) * rampStepDb);
+  }
+
+  /**
+   * Track length in ms, including the preamble lead
+   */
+  getDuration(): number {
+    return this.config.totalDuration * 1000 + this.getFirstClickTime();
+  }
+
+  /**
+   * Time of the first click in ms; clicks move back by the preamble lead
+   */
+  private getFirstClickTime(): number {
+    return this.config.preamble ? this.config.preambleLead : 0;
+  }
+
+  private getFirstClickSample(): number {
+    return Math.floor((this.getFirstClickTime() / 1000) * this.config.sampleRate);
+  }
+
+  private getTrackSamples(): number {
+    return Math.floor((this.getDuration() / 1000) * this.config.sampleRate);
   }
 
   /**
    * Generate a single click with Hann window envelope
    */
   private generateClick(
-    leftChannel: Float32Array,
-    rightChannel: Float32Array,
+    channels: Float32Array[],
     startSample: number,
     numSamples: number,
     frequency: number,
@@ -70,7 +543,7 @@ export class ClickTrackGenerator {
   ): void {
     for (let i = 0; i < numSamples; i++) {
       const sampleIndex = startSample + i;
-      if (sampleIndex >= leftChannel.length) break;
+      if (sampleIndex >= channels[0].length) break;
 
       // Hann window envelope for clean onset/offset
       const envelope = 0.5 * (1 - Math.cos((2 * Math.PI * i) / numSamples));
@@ -78,19 +551,61 @@ export class ClickTrackGenerator {
       // Sine wave at the specified frequency
       const sample = amplitude * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
 
-      leftChannel[sampleIndex] = sample;
-      rightChannel[sampleIndex] = sample;
+      for (const channel of channels) {
+        channel[sampleIndex] = sample;
+      }
     }
   }
 
   /**
    * Generate a reference click for cross-correlation
+   * In MLS, code, sweep and chirp modes the frequency is ignored and the scaled probe is returned.
+   * In ramp mode it's a full-amplitude step: a steady tone with faded ends.
    */
   generateReferenceClick(frequency: number): Float32Array {
-    const { sampleRate, clickDuration, amplitude } = this.config;
+    const { sampleRate, clickDuration, amplitude, signalType, mlsOrder } = this.config;
+
+    if (signalType === 'chirp') {
+      const { chirpStartFrequency, chirpEndFrequency, chirpDuration } = this.config;
+      const chirp = generateLinearChirp(chirpStartFrequency, chirpEndFrequency, chirpDuration, sampleRate);
+      for (let i = 0; i < chirp.length; i++) {
+        chirp[i] *= amplitude;
+      }
+      return chirp;
+    }
+
+    if (signalType === 'sweep') {
+      const { sweepStartFrequency, sweepEndFrequency, sweepDuration } = this.config;
+      const sweep = generateExponentialSweep(sweepStartFrequency, sweepEndFrequency, sweepDuration, sampleRate);
+      for (let i = 0; i < sweep.length; i++) {
+        sweep[i] *= amplitude;
+      }
+      return sweep;
+    }
+
+    if (signalType === 'mls' || signalType === 'code') {
+      const sequence = signalType === 'code'
+        ? generateKasamiCode(mlsOrder, this.config.codeIndex)
+        : generateMLS(mlsOrder);
+      for (let i = 0; i < sequence.length; i++) {
+        sequence[i] *= amplitude;
+      }
+      return sequence;
+    }
+
     const clickSamples = Math.floor((clickDuration / 1000) * sampleRate);
     const samples = new Float32Array(clickSamples);
 
+    if (signalType === 'ramp') {
+      const fadeSamples = Math.min(Math.floor((SWEEP_FADE_MS / 1000) * sampleRate), Math.floor(clickSamples / 2));
+      for (let i = 0; i < clickSamples; i++) {
+        const edge = Math.min(i, clickSamples - 1 - i);
+        const envelope = edge < fadeSamples ? 0.5 * (1 - Math.cos((Math.PI * edge) / fadeSamples)) : 1;
+        samples[i] = amplitude * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+      }
+      return samples;
+    }
+
     for (let i = 0; i < clickSamples; i++) {
       const envelope = 0.5 * (1 - Math.cos((2 * Math.PI * i) / clickSamples));
       samples[i] = amplitude * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
@@ -100,16 +615,57 @@ export class ClickTrackGenerator {
   }
 
   /**
-   * Get expected click timestamps in milliseconds
+   * Generate the Farina inverse filter for the configured sweep: the
+   * time-reversed sweep with a -6 dB/octave envelope that undoes the sweep's
+   * pink spectrum. Scaled so the sweep convolved with it peaks at 1/amplitude,
+   * making the recovered impulse response read as system gain.
+   */
+  generateInverseFilter(): Float32Array {
+    const { sampleRate, sweepStartFrequency, sweepEndFrequency, sweepDuration, amplitude } = this.config;
+
+    const sweep = generateExponentialSweep(sweepStartFrequency, sweepEndFrequency, sweepDuration, sampleRate);
+    const rate = getSweepRate(sweepStartFrequency, sweepEndFrequency, sweepDuration);
+    const inverse = new Float32Array(sweep.length);
+
+    for (let i = 0; i < sweep.length; i++) {
+      const t = i / sampleRate;
+      inverse[i] = sweep[sweep.length - 1 - i] * Math.exp(-t / rate);
+    }
+
+    // Normalize using the convolution peak of sweep and inverse filter
+    const response = fftConvolve(sweep, inverse);
+    let peak = 0;
+    for (let i = 0; i < response.length; i++) {
+      peak = Math.max(peak, Math.abs(response[i]));
+    }
+
+    const scale = peak > 0 ? 1 / (peak * amplitude) : 0;
+    for (let i = 0; i < inverse.length; i++) {
+      inverse[i] *= scale;
+    }
+
+    return inverse;
+  }
+
+  /**
+   * Get expected click timestamps in milliseconds from the start of the track
+   * A sweep track has a single probe, at t=0 or after the preamble
    */
   getClickTimestamps(): { time: number; frequency: number }[] {
-    const { totalDuration, clickInterval, frequencies } = this.config;
+    const { totalDuration, clickInterval, frequencies, signalType, sweepStartFrequency } = this.config;
+
+    const firstClickTime = this.getFirstClickTime();
+
+    if (signalType === 'sweep') {
+      return [{ time: firstClickTime, frequency: sweepStartFrequency }];
+    }
+
     const numClicks = Math.floor(totalDuration * 1000 / clickInterval);
     const timestamps: { time: number; frequency: number }[] = [];
 
     for (let i = 0; i < numClicks; i++) {
       timestamps.push({
-        time: i * clickInterval,
+        time: firstClickTime + i * clickInterval,
         frequency: frequencies[i % frequencies.length],
       });
     }
@@ -117,6 +673,55 @@ export class ClickTrackGenerator {
     return timestamps;
   }
 
+  /**
+   * Timing manifest describing this track's click schedule
+   */
+  getManifest(): ClickTrackManifest {
+    const { sampleRate, clickInterval, signalType } = this.config;
+    const intervalSamples = Math.floor((clickInterval / 1000) * sampleRate);
+
+    return {
+      version: CLICK_TRACK_MANIFEST_VERSION,
+      sampleRate,
+      shape: signalType,
+      probeDuration: (this.generateReferenceClick(0).length * 1000) / sampleRate,
+      config: this.getConfig(),
+      clicks: this.getClickTimestamps().map(({ time, frequency }, index) => ({
+        index,
+        time,
+        sampleIndex: this.getFirstClickSample() + index * intervalSamples,
+        frequency,
+      })),
+    };
+  }
+
+  /**
+   * Check a track's manifest schedules the same clicks as this generator.
+   * Throws describing the first difference.
+   */
+  verifyManifest(manifest: ClickTrackManifest): void {
+    if (manifest.version !== CLICK_TRACK_MANIFEST_VERSION) {
+      throw new Error(`Unsupported click track manifest version ${manifest.version}`);
+    }
+    if (manifest.shape !== this.config.signalType) {
+      throw new Error(`Click track plays ${manifest.shape} probes, expected ${this.config.signalType}`);
+    }
+
+    const expected = this.getClickTimestamps();
+    if (manifest.clicks.length !== expected.length) {
+      throw new Error(`Click track has ${manifest.clicks.length} clicks, expected ${expected.length}`);
+    }
+
+    expected.forEach(({ time, frequency }, index) => {
+      const click = manifest.clicks[index];
+      if (Math.abs(click.time - time) > MANIFEST_TIME_TOLERANCE_MS || click.frequency !== frequency) {
+        throw new Error(
+          `Click #${index + 1} is at ${click.time}ms (${click.frequency}Hz), expected ${time}ms (${frequency}Hz)`
+        );
+      }
+    });
+  }
+
   /**
    * Play the click track through the given AudioContext
    */
@@ -130,87 +735,229 @@ export class ClickTrackGenerator {
   }
 
   /**
-   * Generate WAV file as Blob
+   * Generate WAV file as Blob, in the configured channel layout and sample format
    */
   generateWavBlob(): Blob {
-    const { sampleRate, totalDuration, clickDuration, clickInterval, frequencies, amplitude } = this.config;
+    const { sampleRate, sampleFormat } = this.config;
 
-    const totalSamples = sampleRate * totalDuration;
-    const leftChannel = new Float32Array(totalSamples);
-    const rightChannel = new Float32Array(totalSamples);
+    // Create WAV file
+    const wavData = ClickTrackGenerator.createWavFile(this.renderChannels(), sampleRate, sampleFormat);
+    return new Blob([wavData], { type: 'audio/wav' });
+  }
 
-    const clickSamples = Math.floor((clickDuration / 1000) * sampleRate);
-    const intervalSamples = Math.floor((clickInterval / 1000) * sampleRate);
-    const numClicks = Math.floor(totalDuration * 1000 / clickInterval);
+  /**
+   * Size in bytes of the WAV file generateWavBlob() produces, without rendering it
+   */
+  getWavFileSize(): number {
+    const { channels, sampleFormat } = this.config;
+    const dataSize = this.getTrackSamples() * channels * (BITS_PER_SAMPLE[sampleFormat] / 8);
+    return ClickTrackGenerator.getWavHeaderSize(channels, sampleFormat) + dataSize;
+  }
 
-    for (let clickIndex = 0; clickIndex < numClicks; clickIndex++) {
-      const startSample = clickIndex * intervalSamples;
-      const frequency = frequencies[clickIndex % frequencies.length];
-      this.generateClick(leftChannel, rightChannel, startSample, clickSamples, frequency, amplitude, sampleRate);
+  /**
+   * Generate FLAC file as Blob (pcm16 or pcm24 only)
+   */
+  generateFlacBlob(): Blob {
+    const { sampleRate, sampleFormat } = this.config;
+    if (sampleFormat !== 'pcm16' && sampleFormat !== 'pcm24') {
+      throw new Error(`FLAC export does not support ${sampleFormat} samples`);
     }
 
-    // Create WAV file
-    const wavData = this.createWavFile(leftChannel, rightChannel, sampleRate);
-    return new Blob([wavData], { type: 'audio/wav' });
+    const flacData = encodeFlac(this.renderChannels(), sampleRate, BITS_PER_SAMPLE[sampleFormat] as 16 | 24);
+    return new Blob([flacData], { type: 'audio/flac' });
+  }
+
+  /**
+   * Render the track into fresh channel arrays
+   */
+  private renderChannels(): Float32Array[] {
+    const { channels } = this.config;
+
+    const totalSamples = this.getTrackSamples();
+    const channelData = Array.from({ length: channels }, () => new Float32Array(totalSamples));
+
+    this.renderTrack(channelData);
+
+    return channelData;
   }
 
   /**
-   * Create WAV file from audio data
+   * Create WAV file from audio data.
+   * 16-bit mono/stereo is written as plain PCM; wider samples, float and
+   * more than two channels use WAVE_FORMAT_EXTENSIBLE as the spec asks.
    */
-  private createWavFile(leftChannel: Float32Array, rightChannel: Float32Array, sampleRate: number): ArrayBuffer {
-    const numChannels = 2;
-    const bitsPerSample = 16;
+  static createWavFile(channels: Float32Array[], sampleRate: number, sampleFormat: SampleFormat = 'pcm16'): ArrayBuffer {
+    const numChannels = channels.length;
+    const numFrames = channels[0]?.length ?? 0;
+    const isFloat = sampleFormat === 'float32';
+    const bitsPerSample = BITS_PER_SAMPLE[sampleFormat];
     const bytesPerSample = bitsPerSample / 8;
     const blockAlign = numChannels * bytesPerSample;
     const byteRate = sampleRate * blockAlign;
-    const dataSize = leftChannel.length * blockAlign;
-    const headerSize = 44;
+    const dataSize = numFrames * blockAlign;
+    const extensible = sampleFormat !== 'pcm16' || numChannels > 2;
+    const fmtSize = extensible ? 40 : 16;
+    const headerSize = ClickTrackGenerator.getWavHeaderSize(numChannels, sampleFormat);
     const fileSize = headerSize + dataSize;
 
     const buffer = new ArrayBuffer(fileSize);
     const view = new DataView(buffer);
 
     // RIFF header
-    this.writeString(view, 0, 'RIFF');
+    ClickTrackGenerator.writeString(view, 0, 'RIFF');
     view.setUint32(4, fileSize - 8, true);
-    this.writeString(view, 8, 'WAVE');
+    ClickTrackGenerator.writeString(view, 8, 'WAVE');
 
     // fmt chunk
-    this.writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // chunk size
-    view.setUint16(20, 1, true); // audio format (PCM)
+    ClickTrackGenerator.writeString(view, 12, 'fmt ');
+    view.setUint32(16, fmtSize, true); // chunk size
+    view.setUint16(20, extensible ? 0xfffe : 1, true); // audio format (PCM or extensible)
     view.setUint16(22, numChannels, true);
     view.setUint32(24, sampleRate, true);
     view.setUint32(28, byteRate, true);
     view.setUint16(32, blockAlign, true);
     view.setUint16(34, bitsPerSample, true);
 
+    if (extensible) {
+      view.setUint16(36, 22, true); // extension size
+      view.setUint16(38, bitsPerSample, true); // valid bits
+      view.setUint32(40, numChannels < 32 ? 2 ** numChannels - 1 : 0, true); // speakers in standard order
+      // Sub-format GUID: format code followed by the fixed KSDATAFORMAT suffix
+      view.setUint16(44, isFloat ? 3 : 1, true);
+      [0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71].forEach((byte, i) =>
+        view.setUint8(46 + i, byte)
+      );
+    }
+
     // data chunk
-    this.writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
+    ClickTrackGenerator.writeString(view, headerSize - 8, 'data');
+    view.setUint32(headerSize - 4, dataSize, true);
+
+    // Audio data (interleaved), rounded so parseWavFile reads back the same samples
+    const fullScale = 2 ** (bitsPerSample - 1) - 1;
+    let offset = headerSize;
+    for (let i = 0; i < numFrames; i++) {
+      for (const channel of channels) {
+        // Clamp and convert to the target sample format
+        const sample = Math.max(-1, Math.min(1, channel[i]));
+
+        if (isFloat) {
+          view.setFloat32(offset, sample, true);
+        } else if (bitsPerSample === 16) {
+          view.setInt16(offset, Math.round(sample * fullScale), true);
+        } else if (bitsPerSample === 24) {
+          const value = Math.round(sample * fullScale);
+          view.setUint8(offset, value & 0xff);
+          view.setUint8(offset + 1, (value >> 8) & 0xff);
+          view.setUint8(offset + 2, (value >> 16) & 0xff);
+        } else {
+          view.setInt32(offset, Math.round(sample * fullScale), true);
+        }
+        offset += bytesPerSample;
+      }
+    }
 
-    // Audio data (interleaved stereo)
-    let offset = 44;
-    for (let i = 0; i < leftChannel.length; i++) {
-      // Clamp and convert to 16-bit integer
-      const leftSample = Math.max(-1, Math.min(1, leftChannel[i]));
-      const rightSample = Math.max(-1, Math.min(1, rightChannel[i]));
+    return buffer;
+  }
 
-      view.setInt16(offset, leftSample * 0x7fff, true);
-      offset += 2;
-      view.setInt16(offset, rightSample * 0x7fff, true);
-      offset += 2;
+  /**
+   * Read a PCM (16/24/32-bit integer) or 32-bit float WAV file into
+   * per-channel samples in the range -1 to 1
+   */
+  static parseWavFile(buffer: ArrayBuffer): { channels: Float32Array[]; sampleRate: number; sampleFormat: SampleFormat } {
+    const view = new DataView(buffer);
+    if (ClickTrackGenerator.readString(view, 0, 4) !== 'RIFF' || ClickTrackGenerator.readString(view, 8, 4) !== 'WAVE') {
+      throw new Error('Not a WAV file');
     }
 
-    return buffer;
+    let format = 0;
+    let numChannels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let offset = 12;
+
+    while (offset + 8 <= view.byteLength) {
+      const chunkId = ClickTrackGenerator.readString(view, offset, 4);
+      const chunkSize = view.getUint32(offset + 4, true);
+      const body = offset + 8;
+
+      if (chunkId === 'fmt ') {
+        format = view.getUint16(body, true);
+        numChannels = view.getUint16(body + 2, true);
+        sampleRate = view.getUint32(body + 4, true);
+        bitsPerSample = view.getUint16(body + 14, true);
+
+        // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+        if (format === 0xfffe && chunkSize >= 40) {
+          format = view.getUint16(body + 24, true);
+        }
+      } else if (chunkId === 'data') {
+        if (numChannels === 0) {
+          throw new Error('WAV data chunk before fmt chunk');
+        }
+
+        const isFloat = format === 3;
+        if ((format !== 1 && !isFloat) || (isFloat && bitsPerSample !== 32) || ![16, 24, 32].includes(bitsPerSample)) {
+          throw new Error(`Unsupported WAV format ${format} (${bitsPerSample}-bit)`);
+        }
+
+        // The same full scale createWavFile writes with
+        const fullScale = 2 ** (bitsPerSample - 1) - 1;
+        const bytesPerSample = bitsPerSample / 8;
+        const dataSize = Math.min(chunkSize, view.byteLength - body);
+        const numFrames = Math.floor(dataSize / (bytesPerSample * numChannels));
+        const channels = Array.from({ length: numChannels }, () => new Float32Array(numFrames));
+
+        let position = body;
+        for (let i = 0; i < numFrames; i++) {
+          for (let c = 0; c < numChannels; c++) {
+            if (isFloat) {
+              channels[c][i] = view.getFloat32(position, true);
+            } else if (bitsPerSample === 16) {
+              channels[c][i] = view.getInt16(position, true) / fullScale;
+            } else if (bitsPerSample === 24) {
+              const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+              channels[c][i] = value / fullScale;
+            } else {
+              channels[c][i] = view.getInt32(position, true) / fullScale;
+            }
+            position += bytesPerSample;
+          }
+        }
+
+        const sampleFormat: SampleFormat = isFloat ? 'float32' : (`pcm${bitsPerSample}` as SampleFormat);
+        return { channels, sampleRate, sampleFormat };
+      }
+
+      // Chunks are padded to an even size
+      offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV file has no data chunk');
   }
 
-  private writeString(view: DataView, offset: number, str: string): void {
+  /**
+   * Bytes before the sample data: RIFF header, fmt chunk and data chunk header
+   */
+  private static getWavHeaderSize(numChannels: number, sampleFormat: SampleFormat): number {
+    const extensible = sampleFormat !== 'pcm16' || numChannels > 2;
+    return 20 + (extensible ? 40 : 16) + 8;
+  }
+
+  private static writeString(view: DataView, offset: number, str: string): void {
     for (let i = 0; i < str.length; i++) {
       view.setUint8(offset + i, str.charCodeAt(i));
     }
   }
 
+  private static readString(view: DataView, offset: number, length: number): string {
+    let str = '';
+    for (let i = 0; i < length; i++) {
+      str += String.fromCharCode(view.getUint8(offset + i));
+    }
+    return str;
+  }
+
   /**
    * Get configuration
    */
@@ -0,0 +1,202 @@
+/**
+ * Click Track Route
+ * URL scheme for click tracks rendered on demand by the dev/preview server,
+ * so the track a player hears is always generated from the session's own config
+ *
+ * Only settings that differ from DEFAULT_CLICK_TRACK_CONFIG go in the query,
+ * e.g. /calibration-track.wav?totalDuration=30&frequencies=500,1000. The same
+ * query with a .json extension returns the track's timing manifest.
+ */
+
+import { getIndexCodeDuration } from './ClickIndexCode';
+import { DEFAULT_CLICK_TRACK_CONFIG } from './ClickTrackGenerator';
+import type { ClickTrackConfig } from './ClickTrackGenerator';
+
+export const CLICK_TRACK_ROUTE = '/calibration-track';
+
+// 'json' is the track's timing manifest rather than audio
+export type ClickTrackFileType = 'wav' | 'flac' | 'json';
+
+const SIGNAL_TYPES: ClickTrackConfig['signalType'][] = ['click', 'mls', 'sweep', 'code', 'chirp', 'ramp'];
+const SAMPLE_FORMATS: ClickTrackConfig['sampleFormat'][] = ['pcm16', 'pcm24', 'pcm32', 'float32'];
+
+// Bounds keep a single request from rendering an unreasonably large file
+const MAX_TOTAL_DURATION_S = 600;
+const MIN_SAMPLE_RATE = 8000;
+const MAX_SAMPLE_RATE = 192000;
+const MAX_CHANNELS = 8;
+
+// Longest a probe, the preamble or the preamble lead may be (ms), and the
+// shortest click interval, which also bounds how many probes a track holds
+const MAX_PROBE_DURATION_MS = 10000;
+const MIN_CLICK_INTERVAL_MS = 50;
+const MIN_MLS_ORDER = 2;
+const MAX_MLS_ORDER = 16;
+const MAX_FREQUENCIES = 32;
+
+// Samples over all channels a request may make the server render, both the
+// track itself and every probe written into it (256 MB as float32)
+const MAX_RENDERED_SAMPLES = 64 * 1024 * 1024;
+
+/**
+ * URL of the click track for `config`
+ */
+export function buildClickTrackUrl(
+  origin: string,
+  config: Partial<ClickTrackConfig>,
+  fileType: ClickTrackFileType = 'wav'
+): string {
+  const query = new URLSearchParams();
+
+  for (const key of Object.keys(DEFAULT_CLICK_TRACK_CONFIG) as (keyof ClickTrackConfig)[]) {
+    const value = config[key];
+    if (value === undefined) continue;
+
+    const encoded = encodeValue(value);
+    if (encoded !== encodeValue(DEFAULT_CLICK_TRACK_CONFIG[key])) {
+      query.set(key, encoded);
+    }
+  }
+
+  const search = query.toString();
+  return `${origin}${CLICK_TRACK_ROUTE}.${fileType}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Parse a click track request path into the file type and track config.
+ * Returns null for paths outside the route; throws on invalid parameters.
+ */
+export function parseClickTrackUrl(
+  url: string
+): { fileType: ClickTrackFileType; config: Partial<ClickTrackConfig> } | null {
+  const parsed = new URL(url, 'http://localhost');
+  const [route, fileType] = parsed.pathname.split(/\.(?=[^.]*$)/);
+  if (route !== CLICK_TRACK_ROUTE || (fileType !== 'wav' && fileType !== 'flac' && fileType !== 'json')) return null;
+
+  const config: Record<string, unknown> = {};
+
+  for (const [key, raw] of parsed.searchParams) {
+    if (!(key in DEFAULT_CLICK_TRACK_CONFIG)) {
+      throw new Error(`Unknown click track parameter "${key}"`);
+    }
+
+    const defaultValue = DEFAULT_CLICK_TRACK_CONFIG[key as keyof ClickTrackConfig];
+    if (Array.isArray(defaultValue)) {
+      config[key] = raw.split(',').map((item) => parseNumber(key, item));
+    } else if (typeof defaultValue === 'boolean') {
+      config[key] = raw === '1' || raw === 'true';
+    } else if (typeof defaultValue === 'number') {
+      config[key] = parseNumber(key, raw);
+    } else {
+      config[key] = raw;
+    }
+  }
+
+  const trackConfig = config as Partial<ClickTrackConfig>;
+  const fullConfig = { ...DEFAULT_CLICK_TRACK_CONFIG, ...trackConfig };
+  validate(fullConfig);
+  if (fileType === 'flac' && fullConfig.sampleFormat !== 'pcm16' && fullConfig.sampleFormat !== 'pcm24') {
+    throw new Error(`FLAC export does not support ${fullConfig.sampleFormat} samples`);
+  }
+
+  return { fileType, config: trackConfig };
+}
+
+/**
+ * URL of the timing manifest published next to a track file
+ */
+export function getManifestUrl(trackUrl: string): string {
+  return trackUrl.replace(/\.(wav|flac)(?=$|\?)/, '.json');
+}
+
+function encodeValue(value: ClickTrackConfig[keyof ClickTrackConfig]): string {
+  if (Array.isArray(value)) return value.join(',');
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  return String(value);
+}
+
+function parseNumber(key: string, raw: string): number {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    throw new Error(`Click track parameter "${key}" must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+function validate(config: ClickTrackConfig): void {
+  if (!SIGNAL_TYPES.includes(config.signalType)) {
+    throw new Error(`Unknown signal type "${config.signalType}"`);
+  }
+  if (!SAMPLE_FORMATS.includes(config.sampleFormat)) {
+    throw new Error(`Unknown sample format "${config.sampleFormat}"`);
+  }
+  if (!Number.isInteger(config.sampleRate) || config.sampleRate < MIN_SAMPLE_RATE || config.sampleRate > MAX_SAMPLE_RATE) {
+    throw new Error(`Sample rate must be an integer between ${MIN_SAMPLE_RATE} and ${MAX_SAMPLE_RATE}Hz`);
+  }
+  if (config.totalDuration <= 0 || config.totalDuration > MAX_TOTAL_DURATION_S) {
+    throw new Error(`Total duration must be between 0 and ${MAX_TOTAL_DURATION_S}s`);
+  }
+  if (!Number.isInteger(config.channels) || config.channels < 1 || config.channels > MAX_CHANNELS) {
+    throw new Error(`Channel count must be between 1 and ${MAX_CHANNELS}`);
+  }
+  if (config.frequencies.length === 0 || config.frequencies.length > MAX_FREQUENCIES) {
+    throw new Error(`Between 1 and ${MAX_FREQUENCIES} click frequencies are required`);
+  }
+  if (!(config.clickInterval >= MIN_CLICK_INTERVAL_MS)) {
+    throw new Error(`Click interval must be at least ${MIN_CLICK_INTERVAL_MS}ms`);
+  }
+  if (!Number.isInteger(config.mlsOrder) || config.mlsOrder < MIN_MLS_ORDER || config.mlsOrder > MAX_MLS_ORDER) {
+    throw new Error(`MLS order must be an integer between ${MIN_MLS_ORDER} and ${MAX_MLS_ORDER}`);
+  }
+
+  const durations = {
+    clickDuration: config.clickDuration,
+    sweepDuration: config.sweepDuration,
+    chirpDuration: config.chirpDuration,
+    preambleDuration: config.preambleDuration,
+  };
+  for (const [key, duration] of Object.entries(durations)) {
+    if (!(duration > 0 && duration <= MAX_PROBE_DURATION_MS)) {
+      throw new Error(`Click track parameter "${key}" must be between 0 and ${MAX_PROBE_DURATION_MS}ms`);
+    }
+  }
+  if (!(config.preambleLead >= 0 && config.preambleLead <= MAX_PROBE_DURATION_MS)) {
+    throw new Error(`Preamble lead must be between 0 and ${MAX_PROBE_DURATION_MS}ms`);
+  }
+
+  const renderedSamples = getRenderedSamples(config);
+  if (renderedSamples > MAX_RENDERED_SAMPLES) {
+    throw new Error(
+      `Track would render ${Math.round(renderedSamples / 1e6)}M samples, at most ${MAX_RENDERED_SAMPLES / (1024 * 1024)}M are allowed`
+    );
+  }
+}
+
+/**
+ * Samples over all channels rendering the track takes: the larger of the
+ * track itself and every probe (and the preamble) written into it, which
+ * can overlap when probes outlast the click interval
+ */
+function getRenderedSamples(config: ClickTrackConfig): number {
+  const { sampleRate, channels, totalDuration, clickInterval, signalType } = config;
+  const toSamples = (ms: number) => (ms / 1000) * sampleRate;
+
+  const trackMs = totalDuration * 1000 + (config.preamble ? config.preambleLead : 0);
+
+  let probeSamples: number;
+  if (signalType === 'mls' || signalType === 'code') {
+    probeSamples = Math.pow(2, config.mlsOrder) - 1;
+  } else if (signalType === 'sweep') {
+    probeSamples = toSamples(config.sweepDuration);
+  } else if (signalType === 'chirp') {
+    probeSamples = toSamples(config.chirpDuration);
+  } else {
+    probeSamples = toSamples(config.clickDuration + (config.encodeIndex ? getIndexCodeDuration() : 0));
+  }
+
+  // A sweep track plays its sweep once
+  const probes = signalType === 'sweep' ? 1 : Math.floor((totalDuration * 1000) / clickInterval);
+  const written = probes * probeSamples + (config.preamble ? toSamples(config.preambleDuration) : 0);
+
+  return Math.max(toSamples(trackMs), written) * channels;
+}
@@ -0,0 +1,106 @@
+/**
+ * Gain Staging
+ * Reads the mic level of every step of a level ramp and works out how far the
+ * player volume should move so clicks arrive loud but unclipped
+ */
+
+import type { ClickTrackGenerator } from './ClickTrackGenerator';
+
+export interface LevelRampStep {
+  levelDb: number;  // Step level relative to the click amplitude
+  rmsDb: number;    // Mic RMS over the step in dBFS
+  peak: number;     // Mic peak over the step (0-1)
+  clipped: boolean; // Peak reached full scale
+}
+
+export interface LevelRampAnalysis {
+  noiseDb: number;             // Mic RMS between the preamble and the first step in dBFS
+  steps: LevelRampStep[];
+  adjustmentDb: number | null; // Volume change that puts click peaks at the target, null if no step was usable
+  clickPeakDb: number | null;  // Expected click peak at the current volume in dBFS
+  clickSnrDb: number | null;   // Expected click RMS above the noise at the current volume
+}
+
+// Click peaks land here, leaving room for louder frequencies and reflections
+export const GAIN_STAGING_TARGET_PEAK_DB = -12;
+
+// Samples at or above this are taken as clipped
+const CLIP_LEVEL = 0.98;
+
+// A step must rise this far above the noise to be measured
+const MIN_STEP_SNR_DB = 10;
+
+// Only the middle of each step is measured, clear of its fades
+const STEP_MEASURE_START = 0.2;
+const STEP_MEASURE_END = 0.8;
+
+// Silence after the preamble left for its echoes to die down before measuring noise
+const NOISE_GUARD_MS = 250;
+
+/**
+ * Measure a recording of the level ramp rendered by `ramp`, with the ramp's
+ * preamble starting at `preambleSample`
+ */
+export function analyzeLevelRamp(
+  recording: Float32Array,
+  sampleRate: number,
+  preambleSample: number,
+  ramp: ClickTrackGenerator
+): LevelRampAnalysis {
+  const { clickDuration, preambleDuration } = ramp.getConfig();
+  const levels = ramp.getRampStepLevels();
+  const stepSamples = (clickDuration / 1000) * sampleRate;
+  const toSample = (timeMs: number) => Math.round(preambleSample + (timeMs / 1000) * sampleRate);
+
+  const timestamps = ramp.getClickTimestamps();
+  const noise = measure(
+    recording,
+    toSample(preambleDuration + NOISE_GUARD_MS),
+    toSample(timestamps[0]?.time ?? preambleDuration + NOISE_GUARD_MS)
+  );
+  const noiseDb = toDb(noise.rms);
+
+  const steps = timestamps.map(({ time }, index) => {
+    const start = toSample(time);
+    const { rms, peak } = measure(
+      recording,
+      Math.round(start + STEP_MEASURE_START * stepSamples),
+      Math.round(start + STEP_MEASURE_END * stepSamples)
+    );
+    return { levelDb: levels[index], rmsDb: toDb(rms), peak, clipped: peak >= CLIP_LEVEL };
+  });
+
+  // The loudest step heard cleanly tells how a full-level click would arrive
+  const usable = steps.filter((step) => !step.clipped && step.rmsDb - noiseDb >= MIN_STEP_SNR_DB);
+  const reference = usable[usable.length - 1];
+  if (!reference) {
+    return { noiseDb, steps, adjustmentDb: null, clickPeakDb: null, clickSnrDb: null };
+  }
+
+  const clickPeakDb = toDb(reference.peak) - reference.levelDb;
+  return {
+    noiseDb,
+    steps,
+    adjustmentDb: GAIN_STAGING_TARGET_PEAK_DB - clickPeakDb,
+    clickPeakDb,
+    clickSnrDb: reference.rmsDb - reference.levelDb - noiseDb,
+  };
+}
+
+function measure(recording: Float32Array, start: number, end: number): { rms: number; peak: number } {
+  const from = Math.max(0, start);
+  const to = Math.min(recording.length, end);
+  if (to <= from) return { rms: 0, peak: 0 };
+
+  let sum = 0;
+  let peak = 0;
+  for (let i = from; i < to; i++) {
+    sum += recording[i] * recording[i];
+    peak = Math.max(peak, Math.abs(recording[i]));
+  }
+  return { rms: Math.sqrt(sum / (to - from)), peak };
+}
+
+function toDb(level: number): number {
+  return 20 * Math.log10(Math.max(level, 1e-6));
+}
@@ -0,0 +1,138 @@
+/**
+ * Input Latency
+ * Measures the phone's own mic latency by playing clicks from its speaker
+ * and timing them back in through AudioDetector. Both run on one audio
+ * clock, so the round trip less the output latency the browser reports is
+ * what the mic path adds to every detection.
+ */
+
+import type { CalibrationConfig, ClickDetection, InputLatencyProfile } from '../types';
+import { DEFAULT_CALIBRATION_CONFIG } from '../types';
+import { createAudioDetector } from './AudioDetector';
+import { ClickTrackGenerator, getLoopbackTrackConfig } from './ClickTrackGenerator';
+
+// Time for the mic to settle and background tracking to fill before the first click
+const LOOPBACK_SETTLE_MS = 1000;
+
+// Clicks are scheduled this far ahead so the first one isn't cut short
+const LOOPBACK_LEAD_S = 0.2;
+
+// Listening after the last click, for it to come back and be refined
+const LOOPBACK_TAIL_MS = 700;
+
+// Clicks that must come back for a usable measurement
+const LOOPBACK_MIN_CLICKS = 4;
+
+export class InputLatencyMeter {
+  private config: CalibrationConfig;
+  private generator: ClickTrackGenerator;
+
+  constructor(config: Partial<CalibrationConfig> = {}) {
+    this.config = { ...DEFAULT_CALIBRATION_CONFIG, ...config };
+    this.generator = new ClickTrackGenerator(getLoopbackTrackConfig(this.config));
+  }
+
+  /**
+   * Play the loopback clicks through the phone speaker and time them at the
+   * mic. Needs a user gesture, like any other audio playback.
+   */
+  async measure(): Promise<InputLatencyProfile> {
+    const { clickInterval } = this.generator.getConfig();
+    const clicks = this.generator.getClickTimestamps();
+    const frequencies = [...new Set(clicks.map(({ frequency }) => frequency))];
+
+    const detector = createAudioDetector({
+      sampleRate: this.config.sampleRate,
+      expectedFrequencies: frequencies,
+      decodeClickIndex: false,
+    });
+
+    try {
+      await detector.initialize();
+      detector.setReferenceClicks(
+        frequencies.map((frequency) => ({ frequency, samples: this.generator.generateReferenceClick(frequency) }))
+      );
+
+      const detections: ClickDetection[] = [];
+      detector.startListening((detection) => detections.push(detection));
+
+      const context = detector.getAudioContext()!;
+      if (context.state === 'suspended') {
+        await context.resume();
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOOPBACK_SETTLE_MS));
+
+      const source = context.createBufferSource();
+      source.buffer = this.generator.generateAudioBuffer(context);
+      source.connect(context.destination);
+
+      const startTime = context.currentTime + LOOPBACK_LEAD_S;
+      source.start(startTime);
+      const trackStart = detector.getElapsedTimeAt(startTime);
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, LOOPBACK_LEAD_S * 1000 + this.generator.getDuration() + LOOPBACK_TAIL_MS)
+      );
+      detector.stopListening();
+
+      // Each detection belongs to the last click scheduled before it; the
+      // first one heard per click counts
+      const roundTrips = new Map<number, number>();
+      for (const detection of detections) {
+        const onset = detection.timestamp + (detection.sampleOffset * 1000) / this.config.sampleRate - trackStart;
+        let index = -1;
+        while (index + 1 < clicks.length && clicks[index + 1].time <= onset) index++;
+        if (index < 0 || roundTrips.has(index)) continue;
+
+        const roundTrip = onset - clicks[index].time;
+        if (roundTrip < clickInterval) {
+          roundTrips.set(index, roundTrip);
+        }
+      }
+
+      if (roundTrips.size < LOOPBACK_MIN_CLICKS) {
+        throw new Error(`Only ${roundTrips.size} of ${clicks.length} loopback clicks heard, turn the phone volume up`);
+      }
+
+      // Browsers that don't report output latency leave it in the input latency
+      const outputLatencyMs =
+        ((Number.isFinite(context.baseLatency) ? context.baseLatency : 0) +
+          (Number.isFinite(context.outputLatency) ? context.outputLatency : 0)) *
+        1000;
+      if (!Number.isFinite(context.outputLatency)) {
+        console.warn('[InputLatency] Browser does not report output latency, result includes it');
+      }
+
+      const values = [...roundTrips.values()];
+      const roundTripMs = median(values);
+      const device = detector.getInputDevice();
+
+      const profile: InputLatencyProfile = {
+        deviceId: device?.id ?? 'default',
+        deviceLabel: device?.label ?? '',
+        inputLatencyMs: roundTripMs - outputLatencyMs,
+        roundTripMs,
+        outputLatencyMs,
+        spreadMs: median(values.map((value) => Math.abs(value - roundTripMs))),
+        clicks: roundTrips.size,
+        measuredAt: Date.now(),
+      };
+
+      console.log('[InputLatency] Measured:', profile);
+      return profile;
+    } finally {
+      detector.dispose();
+    }
+  }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+// Factory function
+export function createInputLatencyMeter(config?: Partial<CalibrationConfig>): InputLatencyMeter {
+  return new InputLatencyMeter(config);
+}
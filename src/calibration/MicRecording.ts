@@ -0,0 +1,68 @@
+/**
+ * Mic Recording
+ * Captured mic chunks laid end to end, timed on the detector's timeline
+ */
+
+import { ClickTrackGenerator } from './ClickTrackGenerator';
+
+export class MicRecording {
+  private sampleRate: number;
+  private chunks: Float32Array[] = [];
+  private length = 0;
+  private startTime = 0;
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  /**
+   * Add a captured chunk, with the detector time (ms) of its last sample
+   */
+  append(samples: Float32Array, timestamp: number): void {
+    if (this.chunks.length === 0) {
+      // Timestamp marks the chunk's last sample, so the recording starts one chunk earlier
+      this.startTime = timestamp - (samples.length * 1000) / this.sampleRate;
+    }
+    this.chunks.push(samples);
+    this.length += samples.length;
+  }
+
+  /**
+   * Detector time (ms) of the first sample
+   */
+  getStartTime(): number {
+    return this.startTime;
+  }
+
+  /**
+   * Recorded length in ms
+   */
+  getDuration(): number {
+    return (this.length * 1000) / this.sampleRate;
+  }
+
+  getSamples(): Float32Array {
+    const samples = new Float32Array(this.length);
+
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      samples.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    return samples;
+  }
+
+  clear(): void {
+    this.chunks = [];
+    this.length = 0;
+  }
+
+  /**
+   * Mono 32-bit float WAV, so clipped and quiet samples both come out exactly as captured
+   */
+  toWavBlob(): Blob {
+    const wavData = ClickTrackGenerator.createWavFile([this.getSamples()], this.sampleRate, 'float32');
+    return new Blob([wavData], { type: 'audio/wav' });
+  }
+}
@@ -3,12 +3,65 @@
  * Calculates precise time offset using cross-correlation
  */
 
+import { bandEnvelope, fftConvolve, fftCrossCorrelate, hilbertTransform } from './fft';
+import type { CorrelationWeighting } from './fft';
+
 export interface OffsetResult {
   offsetMs: number;
   confidence: number;
   correlationPeak: number;
 }
 
+export interface ImpulseResponseResult extends OffsetResult {
+  impulseResponse: Float32Array; // Recovered speaker/room impulse response
+  firstPeakIndex: number;        // Sub-sample index of the first (direct path) peak
+}
+
+export interface CodeArrival {
+  repetition: number;   // Probe repetition, counted from the track's inverted first one
+  sampleIndex: number;  // Sub-sample position of the code in the recording
+  confidence: number;   // Detection confidence (0-1)
+}
+
+export interface SweepAnalysisResult extends ImpulseResponseResult {
+  linearEnergy: number;                    // Energy of the linear impulse response
+  harmonicEnergies: number[];              // Energy per harmonic, starting at the 2nd
+  harmonicImpulseResponses: Float32Array[]; // Harmonic responses, starting at the 2nd
+  harmonicDistortionRatio: number;         // Total harmonic energy / linear energy
+}
+
+export interface OffsetStatistics {
+  offsetMs: number;
+  confidence: number;
+  stdDev: number;                         // Spread of the offsets kept (ms)
+  intervalMs: [number, number] | null;    // 95% bootstrap interval of offsetMs, null with too few offsets
+  rejected: number;                       // Offsets left out as outliers
+}
+
+// Band kept around the click frequency for first-arrival envelopes: wide
+// enough to follow a click's rise, narrow enough to shut out hum and speech
+const FIRST_ARRIVAL_HALF_WIDTH_HZ = 200;
+
+// Offsets further than this many robust standard deviations (MAD-based)
+// from the median are outliers, and the robust standard deviation is never
+// taken below the floor (ms), the jitter a clean run still has
+const OUTLIER_SCALES = 3.5;
+const MIN_SCALE_MS = 0.05;
+
+// Huber estimate: offsets within this many robust standard deviations count
+// fully, those further out are weighted down
+const HUBER_K = 1.345;
+const HUBER_ITERATIONS = 20;
+
+// Bootstrap resamples for the offset interval, the offsets needed to give
+// one, and the fixed seed that keeps the same detections to the same interval
+const BOOTSTRAP_RESAMPLES = 1000;
+const MIN_INTERVAL_OFFSETS = 3;
+const BOOTSTRAP_SEED = 0x9e3779b9;
+
+// Interval half-width (ms) at which confidence reaches zero
+const CONFIDENCE_HALF_WIDTH_MS = 10;
+
 export class OffsetCalculator {
   private sampleRate: number;
 
@@ -18,29 +71,46 @@ export class OffsetCalculator {
 
   /**
    * Calculate offset between expected and recorded click
-   * Uses cross-correlation to find the precise time difference
+   * Uses cross-correlation to find the precise time difference:
+   * `offsetMs` is where the click starts, from the first recorded sample.
+   *
+   * A tone burst correlates almost as well one carrier cycle early or late,
+   * so the correlation envelope picks the cycle and the nearest correlation
+   * peak gives the sub-sample position. The envelope comes from correlating
+   * with the click and its 90°-shifted copy, which has no edge effects where
+   * the recording is cut off.
    */
   calculateOffset(
     expectedClick: Float32Array,
     recordedAudio: Float32Array
   ): OffsetResult {
-    // Perform cross-correlation
-    const correlation = this.crossCorrelate(expectedClick, recordedAudio);
+    // Only start positions where the whole click fits in the recording
+    const lastStart = recordedAudio.length - expectedClick.length;
+    if (lastStart < 0) {
+      return { offsetMs: 0, confidence: 0, correlationPeak: 0 };
+    }
+
+    const correlation = fftCrossCorrelate(expectedClick, recordedAudio).subarray(0, lastStart + 1);
+    const quadrature = fftCrossCorrelate(hilbertTransform(expectedClick), recordedAudio);
+    const envelope = correlation.map((value, i) => Math.hypot(value, quadrature[i]));
 
-    // Find peak in correlation
-    const { peakIndex, peakValue } = this.findPeak(correlation);
+    let envelopePeak = 0;
+    for (let i = 1; i < envelope.length; i++) {
+      if (envelope[i] > envelope[envelopePeak]) envelopePeak = i;
+    }
 
-    // Calculate offset in samples (relative to center)
-    const center = expectedClick.length;
-    const offsetSamples = peakIndex - center;
+    const { peakIndex, peakValue } = this.interpolatePeak(
+      correlation,
+      this.nearestLocalMaximum(correlation, envelopePeak)
+    );
 
     // Convert to milliseconds
-    const offsetMs = (offsetSamples * 1000) / this.sampleRate;
+    const offsetMs = (peakIndex * 1000) / this.sampleRate;
 
     // Calculate confidence based on peak prominence
-    const meanCorrelation = this.mean(correlation);
-    const stdCorrelation = this.standardDeviation(correlation, meanCorrelation);
-    const prominence = (peakValue - meanCorrelation) / stdCorrelation;
+    const meanEnvelope = this.mean(envelope);
+    const stdEnvelope = this.standardDeviation(envelope, meanEnvelope);
+    const prominence = stdEnvelope > 0 ? (envelope[envelopePeak] - meanEnvelope) / stdEnvelope : 0;
     const confidence = Math.min(1, Math.max(0, prominence / 10));
 
     return {
@@ -51,72 +121,362 @@ export class OffsetCalculator {
   }
 
   /**
-   * Calculate average offset from multiple detections
+   * Find where a click first arrives in a recording, for rooms where a
+   * reflection can outweigh the direct sound but never beat it there.
+   *
+   * The arrival is the leading edge of the Hilbert envelope around the
+   * click frequency, where it first crosses `threshold` of the envelope
+   * peak. A clean click crosses the same threshold some way into its own
+   * rise, so that delay is taken off and `offsetMs` is where the click
+   * starts, as with `calculateOffset`. Nothing before `searchStartMs` is
+   * searched, which keeps noise well ahead of the click from passing for it.
+   */
+  calculateFirstArrival(
+    expectedClick: Float32Array,
+    recordedAudio: Float32Array,
+    frequency: number,
+    threshold = 0.1,
+    searchStartMs = 0
+  ): OffsetResult {
+    const envelope = bandEnvelope(recordedAudio, this.sampleRate, frequency, FIRST_ARRIVAL_HALF_WIDTH_HZ);
+    const searchStart = Math.max(0, Math.floor((searchStartMs / 1000) * this.sampleRate));
+    const edge = this.findLeadingEdge(envelope, threshold, searchStart);
+    if (!edge) {
+      return { offsetMs: 0, confidence: 0, correlationPeak: 0 };
+    }
+
+    // The clean click, padded so the band filter's rise ahead of it is kept
+    const padding = Math.ceil((2 * this.sampleRate) / FIRST_ARRIVAL_HALF_WIDTH_HZ);
+    const padded = new Float32Array(expectedClick.length + 2 * padding);
+    padded.set(expectedClick, padding);
+    const referenceEdge = this.findLeadingEdge(
+      bandEnvelope(padded, this.sampleRate, frequency, FIRST_ARRIVAL_HALF_WIDTH_HZ),
+      threshold
+    );
+    const riseDelay = referenceEdge ? referenceEdge.index - padding : 0;
+
+    // Confidence from how far the envelope peak stands above the rest
+    const meanEnvelope = this.mean(envelope);
+    const stdEnvelope = this.standardDeviation(envelope, meanEnvelope);
+    const prominence = stdEnvelope > 0 ? (edge.peak - meanEnvelope) / stdEnvelope : 0;
+
+    return {
+      offsetMs: ((edge.index - riseDelay) * 1000) / this.sampleRate,
+      confidence: Math.min(1, Math.max(0, prominence / 10)),
+      correlationPeak: edge.peak,
+    };
+  }
+
+  /**
+   * Recover the impulse response from a recorded MLS probe and take the
+   * latency from its first peak rather than its strongest one.
+   *
+   * `recordedAudio` should start at the time the probe was expected to play;
+   * the returned offset is the delay of the direct sound after that point.
+   * `firstPeakThreshold` is the fraction of the strongest peak that counts
+   * as an arrival, so early direct sound beats a louder late reflection.
+   */
+  calculateMLSOffset(
+    mls: Float32Array,
+    recordedAudio: Float32Array,
+    firstPeakThreshold = 0.5
+  ): ImpulseResponseResult {
+    const impulseResponse = this.matchedFilter(mls, recordedAudio);
+    return this.analyzeImpulseResponse(impulseResponse, firstPeakThreshold);
+  }
+
+  /**
+   * Pulse-compress a recorded linear FM chirp with its matched filter.
+   * The chirp's energy collapses into a peak about 1/bandwidth wide, so the
+   * arrival is resolved far more sharply than a fixed-frequency burst allows.
+   * Same conventions as `calculateMLSOffset`.
+   */
+  calculateChirpOffset(
+    chirp: Float32Array,
+    recordedAudio: Float32Array,
+    firstPeakThreshold = 0.5
+  ): ImpulseResponseResult {
+    const compressed = this.matchedFilter(chirp, recordedAudio);
+    return this.analyzeImpulseResponse(compressed, firstPeakThreshold);
+  }
+
+  /**
+   * Recover the impulse response from a recorded exponential sweep by
+   * convolving it with the sweep's inverse filter, and split it into the
+   * linear response and the harmonic distortion products.
+   *
+   * With an exponential sweep the k-th harmonic's response lands
+   * `sweepRate · ln(k)` seconds before the linear one, so each can be
+   * windowed out of the same deconvolution.
+   * `sweepRate` is the L constant from `getSweepRate()`; as with MLS,
+   * `recordedAudio` should start when the sweep was expected to play.
+   */
+  analyzeSweep(
+    inverseFilter: Float32Array,
+    recordedAudio: Float32Array,
+    sweepRate: number,
+    maxHarmonic = 5,
+    firstPeakThreshold = 0.5
+  ): SweepAnalysisResult {
+    const response = fftConvolve(recordedAudio, inverseFilter);
+
+    // Zero delay lands at the end of the inverse filter; earlier samples hold harmonics
+    const zeroIndex = inverseFilter.length - 1;
+    const impulseResponse = response.slice(zeroIndex);
+
+    // The linear response is the strongest part of the deconvolution
+    let linearPeak = 0;
+    for (let i = 1; i < impulseResponse.length; i++) {
+      if (Math.abs(impulseResponse[i]) > Math.abs(impulseResponse[linearPeak])) {
+        linearPeak = i;
+      }
+    }
+
+    // Linear window reaches halfway to the 2nd harmonic on either side
+    const halfGap = Math.floor((sweepRate * Math.log(2) * this.sampleRate) / 2);
+    const linearStart = Math.max(0, linearPeak - halfGap);
+    const linearEnd = Math.min(impulseResponse.length, linearPeak + halfGap);
+
+    const result = this.analyzeImpulseResponse(impulseResponse, firstPeakThreshold, linearStart, linearEnd);
+    const linearEnergy = this.energy(impulseResponse.subarray(linearStart, linearEnd));
+
+    // Harmonic k sits ln(k)·L before the linear peak, windowed halfway to its neighbours
+    const harmonicImpulseResponses: Float32Array[] = [];
+    const harmonicEnergies: number[] = [];
+    const linearPeakInResponse = zeroIndex + linearPeak;
+
+    for (let k = 2; k <= maxHarmonic; k++) {
+      const center = linearPeakInResponse - sweepRate * Math.log(k) * this.sampleRate;
+      const before = (sweepRate * (Math.log(k + 1) - Math.log(k)) * this.sampleRate) / 2;
+      const after = (sweepRate * (Math.log(k) - Math.log(k - 1)) * this.sampleRate) / 2;
+
+      const windowStart = Math.max(0, Math.floor(center - before));
+      const windowEnd = Math.min(response.length, Math.floor(center + after));
+      const harmonic = windowEnd > windowStart
+        ? response.slice(windowStart, windowEnd)
+        : new Float32Array(0);
+
+      harmonicImpulseResponses.push(harmonic);
+      harmonicEnergies.push(this.energy(harmonic));
+    }
+
+    const harmonicEnergy = harmonicEnergies.reduce((sum, e) => sum + e, 0);
+
+    return {
+      ...result,
+      linearEnergy,
+      harmonicEnergies,
+      harmonicImpulseResponses,
+      harmonicDistortionRatio: linearEnergy > 0 ? harmonicEnergy / linearEnergy : 0,
+    };
+  }
+
+  /**
+   * Find every arrival of a repeating signature code in a recording that may
+   * contain other players' codes at the same time.
+   *
+   * The code is expected every `intervalSamples`; the strongest correlation
+   * peak anchors that grid and each grid slot is searched for a peak standing
+   * `minProminence` standard deviations above the correlation noise. The
+   * whole recording is correlated in blocks, with optional PHAT or SCOT
+   * weighting to sharpen the peaks and turn down steady noise.
+   *
+   * Code tracks play their first repetition inverted, so repetitions are
+   * numbered from the arrival whose peak has the other sign from the rest,
+   * however late the player started. Without that marker the repetitions
+   * can't be numbered and nothing is returned.
+   */
+  detectCodeArrivals(
+    code: Float32Array,
+    recording: Float32Array,
+    intervalSamples: number,
+    weighting: CorrelationWeighting = 'none',
+    minProminence = 6
+  ): CodeArrival[] {
+    if (recording.length < code.length) return [];
+
+    const signedCorrelation = fftCrossCorrelate(code, recording, weighting);
+    const correlation = signedCorrelation.map(Math.abs);
+    const searchLength = recording.length - code.length + 1;
+    const magnitude = correlation.subarray(0, searchLength);
+
+    const meanMagnitude = this.mean(magnitude);
+    const stdMagnitude = this.standardDeviation(magnitude, meanMagnitude);
+    if (stdMagnitude === 0) return [];
+
+    const { peakIndex: anchor } = this.findPeak(magnitude);
+
+    // Repetitions are locked to the track's sample grid; allow ±5ms of slack
+    const slack = Math.floor(0.005 * this.sampleRate);
+    const firstSlot = -Math.floor(anchor / intervalSamples);
+    const lastSlot = Math.floor((searchLength - 1 - anchor) / intervalSamples);
+
+    const arrivals: CodeArrival[] = [];
+    const inverted: boolean[] = [];
+    for (let slot = firstSlot; slot <= lastSlot; slot++) {
+      const center = Math.round(anchor + slot * intervalSamples);
+      const windowStart = Math.max(0, center - slack);
+      const windowEnd = Math.min(searchLength, center + slack + 1);
+
+      let best = windowStart;
+      for (let i = windowStart + 1; i < windowEnd; i++) {
+        if (magnitude[i] > magnitude[best]) best = i;
+      }
+
+      const prominence = (magnitude[best] - meanMagnitude) / stdMagnitude;
+      if (prominence < minProminence) continue;
+
+      const { peakIndex } = this.interpolatePeak(magnitude, best);
+      arrivals.push({
+        repetition: slot,
+        sampleIndex: peakIndex,
+        confidence: Math.min(1, Math.max(0, prominence / (2 * minProminence))),
+      });
+      inverted.push(signedCorrelation[best] < 0);
+    }
+
+    // Most arrivals share the track's polarity, whichever way round the
+    // speaker is wired; the first of the other sign is the start marker
+    const invertedCount = inverted.filter(Boolean).length;
+    const marker = 2 * invertedCount === arrivals.length ? -1 : inverted.indexOf(2 * invertedCount < arrivals.length);
+    if (marker < 0) {
+      console.warn(`[OffsetCalculator] Code start marker not heard in ${arrivals.length} arrivals`);
+      return [];
+    }
+
+    const firstRepetition = arrivals[marker].repetition;
+    return arrivals.slice(marker).map((arrival) => ({ ...arrival, repetition: arrival.repetition - firstRepetition }));
+  }
+
+  /**
+   * Combine the offsets of multiple detections. A few wild detections can't
+   * move the median or the MAD, so outliers are judged against those and
+   * left out; the rest are combined with a Huber estimate, which leans less
+   * on the stragglers than a mean. The interval comes from bootstrapping
+   * that estimate, and confidence from how narrow it is and how many
+   * detections were kept.
    */
   calculateAverageOffset(
     detections: Array<{ expectedTime: number; detectedTime: number }>
-  ): { offsetMs: number; confidence: number; stdDev: number } {
+  ): OffsetStatistics {
     if (detections.length === 0) {
-      return { offsetMs: 0, confidence: 0, stdDev: 0 };
+      return { offsetMs: 0, confidence: 0, stdDev: 0, intervalMs: null, rejected: 0 };
     }
 
-    // Calculate individual offsets
     const offsets = detections.map((d) => d.detectedTime - d.expectedTime);
+    const median = this.median(offsets);
+    const scale = this.robustScale(offsets, median);
+    const kept = offsets.filter((offset) => Math.abs(offset - median) <= OUTLIER_SCALES * scale);
+    const rejected = offsets.length - kept.length;
 
-    // Remove outliers (outside 2 standard deviations)
-    const mean = this.mean(new Float32Array(offsets));
-    const stdDev = this.standardDeviation(new Float32Array(offsets), mean);
+    const offsetMs = this.huberLocation(kept, this.robustScale(kept, this.median(kept)));
+    const stdDev = this.standardDeviation(new Float32Array(kept), this.mean(new Float32Array(kept)));
 
-    const filteredOffsets = offsets.filter(
-      (offset) => Math.abs(offset - mean) <= 2 * stdDev
-    );
+    if (kept.length < MIN_INTERVAL_OFFSETS) {
+      return { offsetMs, confidence: 0.5 * (kept.length / offsets.length), stdDev, intervalMs: null, rejected };
+    }
+
+    const intervalMs = this.bootstrapInterval(kept);
+    const halfWidth = (intervalMs[1] - intervalMs[0]) / 2;
+    const confidence = (kept.length / offsets.length) * Math.max(0, 1 - halfWidth / CONFIDENCE_HALF_WIDTH_MS);
+
+    return { offsetMs, confidence, stdDev, intervalMs, rejected };
+  }
+
+  /**
+   * Locate the first arrival in an impulse response: the first sample within
+   * [searchStart, searchEnd) above `firstPeakThreshold` of the window's
+   * strongest peak, climbed to the top of its own peak.
+   */
+  private analyzeImpulseResponse(
+    impulseResponse: Float32Array,
+    firstPeakThreshold: number,
+    searchStart = 0,
+    searchEnd = impulseResponse.length
+  ): ImpulseResponseResult {
+    // Strongest arrival sets the reference level
+    let maxMagnitude = 0;
+    for (let i = searchStart; i < searchEnd; i++) {
+      maxMagnitude = Math.max(maxMagnitude, Math.abs(impulseResponse[i]));
+    }
+
+    if (maxMagnitude === 0) {
+      return { offsetMs: 0, confidence: 0, correlationPeak: 0, impulseResponse, firstPeakIndex: 0 };
+    }
 
-    if (filteredOffsets.length === 0) {
-      return { offsetMs: mean, confidence: 0.5, stdDev };
+    // First sample over the threshold, then climb to the top of that peak
+    const threshold = firstPeakThreshold * maxMagnitude;
+    let index = searchStart;
+    while (index < searchEnd && Math.abs(impulseResponse[index]) < threshold) {
+      index++;
+    }
+    while (
+      index < searchEnd - 1 &&
+      Math.abs(impulseResponse[index + 1]) > Math.abs(impulseResponse[index])
+    ) {
+      index++;
     }
 
-    // Calculate final average
-    const avgOffset = this.mean(new Float32Array(filteredOffsets));
-    const finalStdDev = this.standardDeviation(new Float32Array(filteredOffsets), avgOffset);
+    const magnitude = impulseResponse.map(Math.abs);
+    const { peakIndex, peakValue } = this.interpolatePeak(magnitude, index);
 
-    // Confidence based on consistency of detections
-    const confidence = Math.min(1, Math.max(0, 1 - finalStdDev / 50));
+    // Confidence from how far the first peak stands above the IR's noise tail
+    const meanMagnitude = this.mean(magnitude);
+    const stdMagnitude = this.standardDeviation(magnitude, meanMagnitude);
+    const prominence = stdMagnitude > 0 ? (peakValue - meanMagnitude) / stdMagnitude : 0;
+    const confidence = Math.min(1, Math.max(0, prominence / 10));
 
     return {
-      offsetMs: avgOffset,
+      offsetMs: (peakIndex * 1000) / this.sampleRate,
       confidence,
-      stdDev: finalStdDev,
+      correlationPeak: peakValue,
+      impulseResponse,
+      firstPeakIndex: peakIndex,
     };
   }
 
   /**
-   * Cross-correlate two signals
-   * Returns correlation array where index 0 corresponds to maximum negative lag
+   * Sub-sample position from `searchStart` on where an envelope first
+   * reaches `threshold` of its peak, interpolated between the samples
+   * either side
    */
-  private crossCorrelate(template: Float32Array, signal: Float32Array): Float32Array {
-    const outputLength = template.length + signal.length - 1;
-    const correlation = new Float32Array(outputLength);
+  private findLeadingEdge(
+    envelope: Float32Array,
+    threshold: number,
+    searchStart = 0
+  ): { index: number; peak: number } | null {
+    let peak = 0;
+    for (let i = searchStart; i < envelope.length; i++) {
+      peak = Math.max(peak, envelope[i]);
+    }
+    if (peak === 0) return null;
 
-    // Normalize template
-    const templateNorm = this.normalize(template);
+    const level = threshold * peak;
+    let index = searchStart;
+    while (envelope[index] < level) {
+      index++;
+    }
 
-    // For each lag position
-    for (let lag = 0; lag < outputLength; lag++) {
-      let sum = 0;
-      let count = 0;
+    if (index === searchStart) return { index, peak };
+    const before = envelope[index - 1];
+    return { index: index - 1 + (level - before) / (envelope[index] - before), peak };
+  }
 
-      for (let i = 0; i < template.length; i++) {
-        const signalIndex = lag - template.length + 1 + i;
-        if (signalIndex >= 0 && signalIndex < signal.length) {
-          sum += templateNorm[i] * signal[signalIndex];
-          count++;
-        }
-      }
+  /**
+   * Correlate a recording against a known probe, scaled by the probe energy.
+   * For probes whose autocorrelation is (nearly) a single spike, such as an
+   * MLS or a chirp, what remains is the system's impulse response.
+   */
+  private matchedFilter(probe: Float32Array, recordedAudio: Float32Array): Float32Array {
+    const correlation = fftCrossCorrelate(probe, recordedAudio);
+    const energy = this.energy(probe);
 
-      correlation[lag] = count > 0 ? sum / count : 0;
+    const impulseResponse = new Float32Array(correlation.length);
+    for (let i = 0; i < correlation.length; i++) {
+      impulseResponse[i] = energy > 0 ? correlation[i] / energy : 0;
     }
 
-    return correlation;
+    return impulseResponse;
   }
 
   /**
@@ -133,7 +493,32 @@ export class OffsetCalculator {
       }
     }
 
-    // Refine peak using quadratic interpolation
+    return this.interpolatePeak(correlation, peakIndex);
+  }
+
+  /**
+   * Index of the local maximum closest to `index`, the later one on a tie
+   */
+  private nearestLocalMaximum(signal: Float32Array, index: number): number {
+    const isMaximum = (i: number) =>
+      (i === 0 || signal[i] >= signal[i - 1]) && (i === signal.length - 1 || signal[i] >= signal[i + 1]);
+
+    for (let distance = 0; distance < signal.length; distance++) {
+      if (index + distance < signal.length && isMaximum(index + distance)) return index + distance;
+      if (index - distance >= 0 && isMaximum(index - distance)) return index - distance;
+    }
+    return index;
+  }
+
+  /**
+   * Refine a peak position using quadratic interpolation
+   */
+  private interpolatePeak(
+    correlation: Float32Array,
+    peakIndex: number
+  ): { peakIndex: number; peakValue: number } {
+    const peakValue = correlation[peakIndex];
+
     if (peakIndex > 0 && peakIndex < correlation.length - 1) {
       const y0 = correlation[peakIndex - 1];
       const y1 = correlation[peakIndex];
@@ -152,18 +537,79 @@ export class OffsetCalculator {
   }
 
   /**
-   * Normalize an array to zero mean and unit variance
+   * Huber M-estimate of location, by reweighting from the median: values
+   * within HUBER_K scales count fully, those further out by how far they are
    */
-  private normalize(arr: Float32Array): Float32Array {
-    const mean = this.mean(arr);
-    const std = this.standardDeviation(arr, mean);
+  private huberLocation(values: number[], scale: number): number {
+    const limit = HUBER_K * scale;
+    let location = this.median(values);
+
+    for (let iteration = 0; iteration < HUBER_ITERATIONS; iteration++) {
+      let weightedSum = 0;
+      let totalWeight = 0;
+      for (const value of values) {
+        const distance = Math.abs(value - location);
+        const weight = distance <= limit ? 1 : limit / distance;
+        weightedSum += weight * value;
+        totalWeight += weight;
+      }
 
-    const normalized = new Float32Array(arr.length);
-    for (let i = 0; i < arr.length; i++) {
-      normalized[i] = std > 0 ? (arr[i] - mean) / std : 0;
+      const next = weightedSum / totalWeight;
+      if (Math.abs(next - location) < 1e-6) return next;
+      location = next;
+    }
+
+    return location;
+  }
+
+  /**
+   * 95% percentile bootstrap interval of the Huber estimate, resampled with
+   * a seeded generator so it doesn't change between runs on the same offsets
+   */
+  private bootstrapInterval(values: number[]): [number, number] {
+    const scale = this.robustScale(values, this.median(values));
+    const random = seededRandom(BOOTSTRAP_SEED);
+    const resample = new Array<number>(values.length);
+    const estimates = new Float64Array(BOOTSTRAP_RESAMPLES);
+
+    for (let b = 0; b < BOOTSTRAP_RESAMPLES; b++) {
+      for (let i = 0; i < values.length; i++) {
+        resample[i] = values[Math.floor(random() * values.length)];
+      }
+      estimates[b] = this.huberLocation(resample, scale);
     }
 
-    return normalized;
+    estimates.sort();
+    return [
+      estimates[Math.floor(0.025 * BOOTSTRAP_RESAMPLES)],
+      estimates[Math.ceil(0.975 * BOOTSTRAP_RESAMPLES) - 1],
+    ];
+  }
+
+  /**
+   * Standard deviation from the median absolute deviation (scaled to match
+   * for normal data), floored at MIN_SCALE_MS
+   */
+  private robustScale(values: number[], median: number): number {
+    const deviation = this.median(values.map((value) => Math.abs(value - median)));
+    return Math.max(1.4826 * deviation, MIN_SCALE_MS);
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  /**
+   * Sum of squared samples
+   */
+  private energy(arr: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < arr.length; i++) {
+      sum += arr[i] * arr[i];
+    }
+    return sum;
   }
 
   /**
@@ -190,5 +636,19 @@ export class OffsetCalculator {
   }
 }
 
+/**
+ * Uniform random numbers in [0, 1) from a 32-bit seed (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // Singleton instance
 export const offsetCalculator = new OffsetCalculator();
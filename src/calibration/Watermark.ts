@@ -0,0 +1,228 @@
+/**
+ * Watermark
+ * Embeds a low-level spread-spectrum timing watermark in program audio and
+ * recovers per-speaker timing from it while the music plays
+ *
+ * The watermark is a Kasami code repeated back-to-back under the program,
+ * scaled to follow the program level so it stays masked. Each speaker can
+ * carry its own code; the code's phase in a recording tells where that
+ * speaker is in the program, and phase differences between speakers are
+ * their relative sync offsets.
+ */
+
+import { ClickTrackGenerator, generateKasamiCode } from './ClickTrackGenerator';
+import { fftCrossCorrelate, whiten } from './fft';
+
+export interface WatermarkConfig {
+  mlsOrder: number;   // Kasami code order, period is 2^order - 1 samples (default: 14, ~341ms at 48kHz)
+  codeIndex: number;  // Kasami code identifying the speaker (default: 0)
+  level: number;      // Watermark amplitude relative to the local program RMS (default: 0.05, -26 dB)
+  blockSize: number;  // Samples per program level measurement (default: 1024)
+}
+
+export const DEFAULT_WATERMARK_CONFIG: WatermarkConfig = {
+  mlsOrder: 14,
+  codeIndex: 0,
+  level: 0.05,
+  blockSize: 1024,
+};
+
+export interface WatermarkDetection {
+  codeIndex: number;
+  phaseSamples: number;  // First code period start in the recording (recording samples, sub-sample)
+  phaseMs: number;       // Same, in ms from the start of the recording
+  periodMs: number;      // Watermark period as heard at the recording rate
+  confidence: number;    // Detection confidence (0-1)
+}
+
+export class WatermarkGenerator {
+  private config: WatermarkConfig;
+
+  constructor(config: Partial<WatermarkConfig> = {}) {
+    this.config = { ...DEFAULT_WATERMARK_CONFIG, ...config };
+  }
+
+  /**
+   * Mix the watermark into every channel of the program
+   */
+  embed(channels: Float32Array[], sampleRate: number): Float32Array[] {
+    const { level, blockSize } = this.config;
+    const code = this.getCode();
+    const length = channels[0]?.length ?? 0;
+
+    // Program level per block, measured across all channels
+    const numBlocks = Math.ceil(length / blockSize);
+    const blockLevels = new Float32Array(numBlocks);
+    for (let block = 0; block < numBlocks; block++) {
+      const start = block * blockSize;
+      const end = Math.min(length, start + blockSize);
+      let sum = 0;
+      for (const channel of channels) {
+        for (let i = start; i < end; i++) {
+          sum += channel[i] * channel[i];
+        }
+      }
+      blockLevels[block] = Math.sqrt(sum / ((end - start) * channels.length));
+    }
+
+    console.log(`[Watermark] Embedding code ${this.config.codeIndex} (${code.length} samples) at ${sampleRate}Hz`);
+
+    return channels.map((channel) => {
+      const output = new Float32Array(length);
+      for (let i = 0; i < length; i++) {
+        // Interpolate between block centres so the level has no steps
+        const position = i / blockSize - 0.5;
+        const block = Math.max(0, Math.min(numBlocks - 1, Math.floor(position)));
+        const next = Math.min(numBlocks - 1, block + 1);
+        const fraction = Math.max(0, Math.min(1, position - block));
+        const programLevel = blockLevels[block] + (blockLevels[next] - blockLevels[block]) * fraction;
+
+        output[i] = channel[i] + level * programLevel * code[i % code.length];
+      }
+      return output;
+    });
+  }
+
+  /**
+   * Watermark a WAV file, written back out in its own format through the
+   * click track WAV writer
+   */
+  embedWav(wav: ArrayBuffer): Blob {
+    const { channels, sampleRate, sampleFormat } = ClickTrackGenerator.parseWavFile(wav);
+
+    const wavData = ClickTrackGenerator.createWavFile(this.embed(channels, sampleRate), sampleRate, sampleFormat);
+    return new Blob([wavData], { type: 'audio/wav' });
+  }
+
+  /**
+   * The spreading code, one period of ±1 samples
+   */
+  getCode(): Float32Array {
+    return generateKasamiCode(this.config.mlsOrder, this.config.codeIndex);
+  }
+
+  /**
+   * Get configuration
+   */
+  getConfig(): WatermarkConfig {
+    return { ...this.config };
+  }
+}
+
+export class WatermarkDetector {
+  private mlsOrder: number;
+
+  constructor(mlsOrder = DEFAULT_WATERMARK_CONFIG.mlsOrder) {
+    this.mlsOrder = mlsOrder;
+  }
+
+  /**
+   * Find the phase of one speaker's watermark in a recording.
+   * `programRate` is the sample rate the watermark was embedded at, which
+   * may differ from the mic's `recordingRate`. Longer recordings fold more
+   * code periods together and detect at lower watermark levels.
+   */
+  detect(
+    recording: Float32Array,
+    recordingRate: number,
+    programRate: number,
+    codeIndex: number
+  ): WatermarkDetection {
+    const code = generateKasamiCode(this.mlsOrder, codeIndex);
+    const period = (code.length * recordingRate) / programRate;
+    const periodMs = (period * 1000) / recordingRate;
+
+    // Code as heard at the recording rate
+    const referenceLength = Math.round(period);
+    const reference = new Float32Array(referenceLength);
+    for (let i = 0; i < referenceLength; i++) {
+      reference[i] = code[Math.floor((i * programRate) / recordingRate) % code.length];
+    }
+
+    const fullOverlap = recording.length - referenceLength + 1;
+    if (fullOverlap < referenceLength) {
+      return { codeIndex, phaseSamples: 0, phaseMs: 0, periodMs, confidence: 0 };
+    }
+
+    // Whitening stops the music's own spectrum from dominating the correlation
+    const correlation = fftCrossCorrelate(reference, whiten(recording));
+
+    // Fold every period onto one so repeated code periods add up coherently
+    const folded = new Float32Array(referenceLength);
+    for (let phase = 0; phase < referenceLength; phase++) {
+      let sum = 0;
+      for (let k = 0; ; k++) {
+        const index = Math.round(phase + k * period);
+        if (index >= fullOverlap) break;
+        sum += correlation[index];
+      }
+      folded[phase] = Math.abs(sum);
+    }
+
+    let peak = 0;
+    let mean = 0;
+    for (let i = 0; i < folded.length; i++) {
+      mean += folded[i];
+      if (folded[i] > folded[peak]) peak = i;
+    }
+    mean /= folded.length;
+
+    let variance = 0;
+    for (let i = 0; i < folded.length; i++) {
+      variance += (folded[i] - mean) ** 2;
+    }
+    const std = Math.sqrt(variance / folded.length);
+
+    // Quadratic refinement, wrapping around the period
+    const y0 = folded[(peak - 1 + referenceLength) % referenceLength];
+    const y1 = folded[peak];
+    const y2 = folded[(peak + 1) % referenceLength];
+    const denominator = y0 - 2 * y1 + y2;
+    const refinement = denominator !== 0 ? (y0 - y2) / (2 * denominator) : 0;
+    const phaseSamples = peak + (Math.abs(refinement) < 1 ? refinement : 0);
+
+    // The largest of one period's worth of noise alone sits 4-5σ above the mean
+    const prominence = std > 0 ? (y1 - mean) / std : 0;
+
+    return {
+      codeIndex,
+      phaseSamples,
+      phaseMs: (phaseSamples * 1000) / recordingRate,
+      periodMs,
+      confidence: Math.min(1, Math.max(0, (prominence - 5) / 5)),
+    };
+  }
+
+  /**
+   * Detect several speakers' watermarks in the same recording
+   */
+  detectAll(
+    recording: Float32Array,
+    recordingRate: number,
+    programRate: number,
+    codeIndices: number[]
+  ): WatermarkDetection[] {
+    return codeIndices.map((codeIndex) => this.detect(recording, recordingRate, programRate, codeIndex));
+  }
+
+  /**
+   * Offset of one speaker relative to another in ms, wrapped into
+   * ±half a period (positive = `detection` plays later than `reference`)
+   */
+  getRelativeOffsetMs(reference: WatermarkDetection, detection: WatermarkDetection): number {
+    const period = reference.periodMs;
+    let offset = (detection.phaseMs - reference.phaseMs) % period;
+    if (offset > period / 2) offset -= period;
+    if (offset <= -period / 2) offset += period;
+    return offset;
+  }
+}
+
+// Factory functions
+export function createWatermarkGenerator(config?: Partial<WatermarkConfig>): WatermarkGenerator {
+  return new WatermarkGenerator(config);
+}
+
+export function createWatermarkDetector(mlsOrder?: number): WatermarkDetector {
+  return new WatermarkDetector(mlsOrder);
+}
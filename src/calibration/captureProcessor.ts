@@ -0,0 +1,67 @@
+/**
+ * Capture Processor
+ * AudioWorklet that collects microphone audio into fixed-size blocks on the
+ * audio thread and posts each one to AudioDetector, stamped with the
+ * audio-clock frame of its first sample
+ */
+
+export interface CaptureBlock {
+  samples: Float32Array;
+  frame: number; // Context frame of samples[0]
+}
+
+export interface CaptureProcessorOptions {
+  blockSize: number;
+}
+
+// AudioWorkletGlobalScope isn't part of the DOM typings
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: CaptureProcessorOptions });
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options?: { processorOptions?: CaptureProcessorOptions }) => AudioWorkletProcessor
+): void;
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  private block: Float32Array;
+  private filled = 0;
+  private blockFrame = 0;
+
+  constructor(options?: { processorOptions?: CaptureProcessorOptions }) {
+    super(options);
+    this.block = new Float32Array(options?.processorOptions?.blockSize ?? 2048);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    // No channel data while the input is disconnected
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+
+    let offset = 0;
+    while (offset < input.length) {
+      if (this.filled === 0) {
+        this.blockFrame = currentFrame + offset;
+      }
+
+      const count = Math.min(input.length - offset, this.block.length - this.filled);
+      this.block.set(input.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+
+      if (this.filled === this.block.length) {
+        const message: CaptureBlock = { samples: this.block, frame: this.blockFrame };
+        this.port.postMessage(message, [this.block.buffer]);
+        this.block = new Float32Array(this.block.length);
+        this.filled = 0;
+      }
+    }
+
+    return true;
+  }
+}
+
+// Must match the name AudioDetector creates its AudioWorkletNode with
+registerProcessor('groupsync-capture', CaptureProcessor);
@@ -0,0 +1,335 @@
+/**
+ * FFT helpers
+ * Radix-2 FFT and FFT-based correlation used by the probe signal analysis
+ */
+
+/**
+ * Smallest power of two >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/**
+ * In-place iterative radix-2 FFT.
+ * `real` and `imag` must have the same power-of-two length.
+ * The inverse transform is scaled by 1/N.
+ */
+export function fft(real: Float64Array, imag: Float64Array, inverse = false): void {
+  const n = real.length;
+  if (n !== imag.length || (n & (n - 1)) !== 0) {
+    throw new Error('FFT size must be a power of two');
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  // Butterflies
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const halfSize = size >> 1;
+    const angle = (sign * 2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+
+      for (let k = 0; k < halfSize; k++) {
+        const a = start + k;
+        const b = a + halfSize;
+
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+
+        const nextWReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextWReal;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      real[i] /= n;
+      imag[i] /= n;
+    }
+  }
+}
+
+/**
+ * Spectral weighting for cross-correlation (generalized cross-correlation):
+ * - 'none': plain correlation, whose peak is as wide as the template's
+ *   autocorrelation
+ * - 'phat': phase transform, every bin scaled to unit magnitude so only
+ *   phase lines up. The peak is as sharp as the template's bandwidth allows
+ *   and reflections stay apart from the direct sound, but near-empty bins
+ *   count as much as the rest.
+ * - 'scot': smoothed coherence transform, scaled by the template's spectrum
+ *   and the signal's average spectrum. Like PHAT where the signal is quiet
+ *   between arrivals; bins that are loud all along (hum, music) are turned down.
+ */
+export type CorrelationWeighting = 'none' | 'phat' | 'scot';
+
+// Overlap-save blocks are at least this long, and this many template
+// lengths, so most of every transform gives new lags
+const MIN_CORRELATION_BLOCK = 4096;
+const CORRELATION_BLOCK_TEMPLATES = 4;
+
+// Spectral weights are floored at this fraction of their mean, so
+// near-empty bins aren't amplified into noise
+const WEIGHTING_FLOOR = 1e-3;
+
+/**
+ * Linear cross-correlation of `signal` against `template` via FFT.
+ * Returns an array where index k is the correlation at lag k
+ * (template start aligned with signal[k]), for k in [0, signal.length).
+ *
+ * A signal much longer than the template is correlated block by block
+ * (overlap-save), so memory stays proportional to the template and a whole
+ * recording costs little more than its length in transforms.
+ */
+export function fftCrossCorrelate(
+  template: Float32Array,
+  signal: Float32Array,
+  weighting: CorrelationWeighting = 'none'
+): Float32Array {
+  const result = new Float32Array(signal.length);
+  if (signal.length === 0 || template.length === 0) return result;
+
+  // A short signal fits one transform; each block of a long one gives `step` lags
+  const size = Math.min(
+    nextPowerOfTwo(signal.length + template.length - 1),
+    nextPowerOfTwo(Math.max(MIN_CORRELATION_BLOCK, CORRELATION_BLOCK_TEMPLATES * template.length))
+  );
+  const step = size - template.length + 1;
+
+  const templateReal = new Float64Array(size);
+  const templateImag = new Float64Array(size);
+  templateReal.set(template);
+  fft(templateReal, templateImag);
+
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  const transformBlock = (start: number) => {
+    real.fill(0);
+    imag.fill(0);
+    real.set(signal.subarray(start, start + size));
+    fft(real, imag);
+  };
+
+  // SCOT weighs every block by the signal's spectrum averaged over all of them
+  const signalPower = new Float64Array(weighting === 'scot' ? size : 0);
+  if (weighting === 'scot') {
+    const blocks = Math.ceil(signal.length / step);
+    for (let start = 0; start < signal.length; start += step) {
+      transformBlock(start);
+      for (let i = 0; i < size; i++) {
+        signalPower[i] += (real[i] * real[i] + imag[i] * imag[i]) / blocks;
+      }
+    }
+  }
+
+  const weights = new Float64Array(size);
+  for (let start = 0; start < signal.length; start += step) {
+    transformBlock(start);
+
+    if (weighting !== 'none') {
+      let meanWeight = 0;
+      for (let i = 0; i < size; i++) {
+        const templatePower = templateReal[i] * templateReal[i] + templateImag[i] * templateImag[i];
+        const power = weighting === 'phat' ? real[i] * real[i] + imag[i] * imag[i] : signalPower[i];
+        weights[i] = Math.sqrt(templatePower * power);
+        meanWeight += weights[i] / size;
+      }
+
+      const floor = meanWeight * WEIGHTING_FLOOR;
+      for (let i = 0; i < size; i++) {
+        const magnitude = weights[i] + floor;
+        weights[i] = magnitude > 0 ? 1 / magnitude : 0;
+      }
+    }
+
+    // Signal spectrum times the template's conjugate
+    for (let i = 0; i < size; i++) {
+      const weight = weighting === 'none' ? 1 : weights[i];
+      const re = real[i] * templateReal[i] + imag[i] * templateImag[i];
+      const im = imag[i] * templateReal[i] - real[i] * templateImag[i];
+      real[i] = re * weight;
+      imag[i] = im * weight;
+    }
+
+    fft(real, imag, true);
+
+    // Lags past `step` would wrap round onto the start of the block
+    const lags = Math.min(step, signal.length - start);
+    for (let k = 0; k < lags; k++) {
+      result[start + k] = real[k];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Full linear convolution of two signals via FFT.
+ * Output length is a.length + b.length - 1.
+ */
+export function fftConvolve(a: Float32Array, b: Float32Array): Float32Array {
+  // Zero-padded so the result is free of circular wrap-around
+  const outputLength = a.length + b.length - 1;
+  const size = nextPowerOfTwo(outputLength);
+
+  const aReal = new Float64Array(size);
+  const aImag = new Float64Array(size);
+  const bReal = new Float64Array(size);
+  const bImag = new Float64Array(size);
+
+  aReal.set(a);
+  bReal.set(b);
+
+  fft(aReal, aImag);
+  fft(bReal, bImag);
+
+  for (let i = 0; i < size; i++) {
+    const re = aReal[i] * bReal[i] - aImag[i] * bImag[i];
+    const im = aImag[i] * bReal[i] + aReal[i] * bImag[i];
+    aReal[i] = re;
+    aImag[i] = im;
+  }
+
+  fft(aReal, aImag, true);
+
+  const result = new Float32Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    result[i] = aReal[i];
+  }
+
+  return result;
+}
+
+/**
+ * Flatten the magnitude spectrum of a signal, keeping only its phase.
+ * Coloured program material (music, speech) otherwise swamps a weak
+ * white probe in the correlation.
+ */
+export function whiten(signal: Float32Array): Float32Array {
+  const size = nextPowerOfTwo(signal.length);
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  real.set(signal);
+
+  fft(real, imag);
+
+  // Small floor keeps near-empty bins from being amplified into noise
+  let meanMagnitude = 0;
+  for (let i = 0; i < size; i++) {
+    meanMagnitude += Math.hypot(real[i], imag[i]);
+  }
+  const floor = (meanMagnitude / size) * 1e-3;
+
+  for (let i = 0; i < size; i++) {
+    const magnitude = Math.hypot(real[i], imag[i]) + floor;
+    real[i] /= magnitude;
+    imag[i] /= magnitude;
+  }
+
+  fft(real, imag, true);
+
+  const result = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i++) {
+    result[i] = real[i];
+  }
+
+  return result;
+}
+
+/**
+ * Hilbert transform: every frequency component shifted by 90°, the
+ * imaginary part of the analytic signal
+ */
+export function hilbertTransform(signal: Float32Array): Float32Array {
+  const size = nextPowerOfTwo(signal.length);
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  real.set(signal);
+
+  fft(real, imag);
+
+  // Keep DC and Nyquist, double positive frequencies, drop negative ones
+  for (let i = 1; i < size / 2; i++) {
+    real[i] *= 2;
+    imag[i] *= 2;
+  }
+  for (let i = size / 2 + 1; i < size; i++) {
+    real[i] = 0;
+    imag[i] = 0;
+  }
+
+  fft(real, imag, true);
+
+  const result = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i++) {
+    result[i] = imag[i];
+  }
+
+  return result;
+}
+
+/**
+ * Hilbert envelope of the part of a signal within `halfWidth` Hz of
+ * `centerFrequency`. The band has Hann-shaped edges, so the envelope rises
+ * smoothly instead of ringing ahead of a sudden onset.
+ */
+export function bandEnvelope(
+  signal: Float32Array,
+  sampleRate: number,
+  centerFrequency: number,
+  halfWidth: number
+): Float32Array {
+  // Room for the band filter's response, so the end can't wrap round onto the start
+  const size = nextPowerOfTwo(signal.length + Math.ceil((2 * sampleRate) / halfWidth));
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  real.set(signal);
+
+  fft(real, imag);
+
+  // Analytic signal of the band: positive frequencies only, doubled and shaped
+  for (let i = 0; i < size; i++) {
+    const distance = Math.abs((i * sampleRate) / size - centerFrequency);
+    const gain = i > 0 && i < size / 2 && distance < halfWidth
+      ? 1 + Math.cos((Math.PI * distance) / halfWidth)
+      : 0;
+    real[i] *= gain;
+    imag[i] *= gain;
+  }
+
+  fft(real, imag, true);
+
+  const result = new Float32Array(signal.length);
+  for (let i = 0; i < signal.length; i++) {
+    result[i] = Math.hypot(real[i], imag[i]);
+  }
+
+  return result;
+}
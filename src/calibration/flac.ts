@@ -0,0 +1,278 @@
+/**
+ * FLAC encoder
+ * Minimal lossless encoder for calibration tracks: fixed-size blocks,
+ * constant/fixed-predictor/verbatim subframes and Rice-coded residuals
+ */
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_RICE_PARAMETER = 14; // 15 is the escape code for 4-bit Rice parameters
+
+/**
+ * Encode channels of -1 to 1 samples as a FLAC stream,
+ * quantised to the given bit depth
+ */
+export function encodeFlac(channels: Float32Array[], sampleRate: number, bitsPerSample: 16 | 24): ArrayBuffer {
+  if (channels.length < 1 || channels.length > 8) {
+    throw new Error(`FLAC supports 1-8 channels, got ${channels.length}`);
+  }
+
+  const numFrames = channels[0].length;
+  const scale = 2 ** (bitsPerSample - 1) - 1;
+  const samples = channels.map((channel) => {
+    const quantised = new Int32Array(channel.length);
+    for (let i = 0; i < channel.length; i++) {
+      quantised[i] = Math.trunc(Math.max(-1, Math.min(1, channel[i])) * scale);
+    }
+    return quantised;
+  });
+
+  const writer = new BitWriter();
+
+  // Stream marker and STREAMINFO, the only (and so last) metadata block
+  writer.writeBits(0x664c6143, 32); // "fLaC"
+  writer.writeBits(1, 1);
+  writer.writeBits(0, 7);
+  writer.writeBits(34, 24);
+  writer.writeBits(BLOCK_SIZE, 16);
+  writer.writeBits(BLOCK_SIZE, 16);
+  writer.writeBits(0, 24); // Minimum frame size unknown
+  writer.writeBits(0, 24); // Maximum frame size unknown
+  writer.writeBits(sampleRate, 20);
+  writer.writeBits(channels.length - 1, 3);
+  writer.writeBits(bitsPerSample - 1, 5);
+  writer.writeBits(Math.floor(numFrames / 2 ** 32), 4);
+  writer.writeBits(numFrames >>> 0, 32);
+  for (let i = 0; i < 4; i++) {
+    writer.writeBits(0, 32); // MD5 left unset (allowed by the spec)
+  }
+
+  for (let frame = 0; frame * BLOCK_SIZE < numFrames; frame++) {
+    const start = frame * BLOCK_SIZE;
+    const blockSize = Math.min(BLOCK_SIZE, numFrames - start);
+    const frameStart = writer.getByteLength();
+
+    // Frame header
+    writer.writeBits(0x3ffe, 14); // Sync code
+    writer.writeBits(0, 1);
+    writer.writeBits(0, 1); // Fixed block size stream
+    writer.writeBits(blockSize === BLOCK_SIZE ? 0b1100 : 0b0111, 4);
+    writer.writeBits(0, 4); // Sample rate from STREAMINFO
+    writer.writeBits(channels.length - 1, 4); // Independent channels
+    writer.writeBits(0, 3); // Sample size from STREAMINFO
+    writer.writeBits(0, 1);
+    writer.writeUtf8(frame);
+    if (blockSize !== BLOCK_SIZE) {
+      writer.writeBits(blockSize - 1, 16);
+    }
+    writer.writeBits(writer.crc8(frameStart), 8);
+
+    for (const channel of samples) {
+      writeSubframe(writer, channel.subarray(start, start + blockSize), bitsPerSample);
+    }
+
+    writer.alignToByte();
+    writer.writeBits(writer.crc16(frameStart), 16);
+  }
+
+  return writer.toArrayBuffer();
+}
+
+function writeSubframe(writer: BitWriter, block: Int32Array, bitsPerSample: number): void {
+  // Silence (or any constant) costs a single sample
+  if (block.every((sample) => sample === block[0])) {
+    writer.writeBits(0, 8); // Padding bit, type CONSTANT, no wasted bits
+    writer.writeSigned(block[0], bitsPerSample);
+    return;
+  }
+
+  // Pick the fixed predictor with the smallest residual
+  let bestOrder = 0;
+  let bestResidual = residualFor(block, 0);
+  let bestSum = sumOfMagnitudes(bestResidual);
+  for (let order = 1; order <= Math.min(MAX_FIXED_ORDER, block.length - 1); order++) {
+    const residual = residualFor(block, order);
+    const sum = sumOfMagnitudes(residual);
+    if (sum < bestSum) {
+      bestOrder = order;
+      bestResidual = residual;
+      bestSum = sum;
+    }
+  }
+
+  const riceParameter = chooseRiceParameter(bestResidual);
+  const riceBits = bestResidual.reduce(
+    (bits, value) => bits + 1 + riceParameter + Math.floor(foldSigned(value) / 2 ** riceParameter),
+    bestOrder * bitsPerSample + 10
+  );
+
+  if (riceBits >= block.length * bitsPerSample) {
+    writer.writeBits(0b00000010, 8); // Type VERBATIM
+    for (const sample of block) {
+      writer.writeSigned(sample, bitsPerSample);
+    }
+    return;
+  }
+
+  writer.writeBits(0b00010000 | (bestOrder << 1), 8); // Type FIXED with the chosen order
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeSigned(block[i], bitsPerSample);
+  }
+
+  // Residual: 4-bit Rice parameters, a single partition
+  writer.writeBits(0, 2);
+  writer.writeBits(0, 4);
+  writer.writeBits(riceParameter, 4);
+  for (const value of bestResidual) {
+    writer.writeRice(foldSigned(value), riceParameter);
+  }
+}
+
+/**
+ * Residual of the fixed polynomial predictor of the given order
+ * (the order-th finite difference), starting after the warm-up samples
+ */
+function residualFor(block: Int32Array, order: number): number[] {
+  const residual: number[] = [];
+  for (let i = order; i < block.length; i++) {
+    switch (order) {
+      case 0:
+        residual.push(block[i]);
+        break;
+      case 1:
+        residual.push(block[i] - block[i - 1]);
+        break;
+      case 2:
+        residual.push(block[i] - 2 * block[i - 1] + block[i - 2]);
+        break;
+      case 3:
+        residual.push(block[i] - 3 * block[i - 1] + 3 * block[i - 2] - block[i - 3]);
+        break;
+      default:
+        residual.push(block[i] - 4 * block[i - 1] + 6 * block[i - 2] - 4 * block[i - 3] + block[i - 4]);
+    }
+  }
+  return residual;
+}
+
+function sumOfMagnitudes(values: number[]): number {
+  return values.reduce((sum, value) => sum + Math.abs(value), 0);
+}
+
+function chooseRiceParameter(residual: number[]): number {
+  const mean = residual.length > 0 ? sumOfMagnitudes(residual) / residual.length : 0;
+  return mean < 1 ? 0 : Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean)));
+}
+
+/**
+ * Map signed residuals onto unsigned values: 0, -1, 1, -2, 2 ... -> 0, 1, 2, 3, 4 ...
+ */
+function foldSigned(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+/**
+ * Big-endian bit writer with the FLAC frame checksums
+ */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private currentByte = 0;
+  private bitCount = 0;
+
+  writeBits(value: number, numBits: number): void {
+    for (let bit = numBits - 1; bit >= 0; bit--) {
+      this.writeBit(Math.floor(value / 2 ** bit) & 1);
+    }
+  }
+
+  writeSigned(value: number, numBits: number): void {
+    this.writeBits(value < 0 ? value + 2 ** numBits : value, numBits);
+  }
+
+  writeRice(value: number, parameter: number): void {
+    const quotient = Math.floor(value / 2 ** parameter);
+    for (let i = 0; i < quotient; i++) {
+      this.writeBit(0);
+    }
+    this.writeBit(1);
+    this.writeBits(value % 2 ** parameter, parameter);
+  }
+
+  /**
+   * Frame numbers use the UTF-8 style variable-length coding
+   */
+  writeUtf8(value: number): void {
+    if (value < 0x80) {
+      this.writeBits(value, 8);
+      return;
+    }
+
+    const continuationBytes = value < 0x800 ? 1 : value < 0x10000 ? 2 : value < 0x200000 ? 3 : value < 0x4000000 ? 4 : 5;
+    const lead = (0xff << (7 - continuationBytes)) & 0xff;
+
+    this.writeBits(lead | Math.floor(value / 2 ** (6 * continuationBytes)), 8);
+    for (let i = continuationBytes - 1; i >= 0; i--) {
+      this.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+    }
+  }
+
+  alignToByte(): void {
+    while (this.bitCount !== 0) {
+      this.writeBit(0);
+    }
+  }
+
+  getByteLength(): number {
+    return this.length;
+  }
+
+  /**
+   * CRC-8 (polynomial 0x07) of the bytes written since `start`
+   */
+  crc8(start: number): number {
+    let crc = 0;
+    for (let i = start; i < this.length; i++) {
+      crc ^= this.bytes[i];
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+      }
+    }
+    return crc;
+  }
+
+  /**
+   * CRC-16 (polynomial 0x8005) of the bytes written since `start`
+   */
+  crc16(start: number): number {
+    let crc = 0;
+    for (let i = start; i < this.length; i++) {
+      crc ^= this.bytes[i] << 8;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+      }
+    }
+    return crc;
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length).buffer;
+  }
+
+  private writeBit(bit: number): void {
+    this.currentByte = (this.currentByte << 1) | bit;
+    this.bitCount++;
+
+    if (this.bitCount === 8) {
+      if (this.length === this.bytes.length) {
+        const grown = new Uint8Array(this.bytes.length * 2);
+        grown.set(this.bytes);
+        this.bytes = grown;
+      }
+      this.bytes[this.length++] = this.currentByte;
+      this.currentByte = 0;
+      this.bitCount = 0;
+    }
+  }
+}
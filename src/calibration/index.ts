@@ -1,14 +1,97 @@
-export { ClickTrackGenerator, clickTrackGenerator, DEFAULT_CLICK_TRACK_CONFIG } from './ClickTrackGenerator';
-export type { ClickTrackConfig } from './ClickTrackGenerator';
+export {
+  ClickTrackGenerator,
+  clickTrackGenerator,
+  DEFAULT_CLICK_TRACK_CONFIG,
+  NEAR_ULTRASONIC_FREQUENCIES,
+  NEAR_ULTRASONIC_BAND,
+  generateMLS,
+  generateKasamiCode,
+  getKasamiCodeCount,
+  generateExponentialSweep,
+  generateLinearChirp,
+  getSweepRate,
+  getSessionTrackConfig,
+  getLevelRampTrackConfig,
+  getLoopbackTrackConfig,
+  CLICK_TRACK_MANIFEST_VERSION,
+} from './ClickTrackGenerator';
+export type {
+  ClickTrackConfig,
+  ClickTrackManifest,
+  ClickTrackManifestEntry,
+  ProbeSignalType,
+  SampleFormat,
+} from './ClickTrackGenerator';
 
-export { AudioDetector, createAudioDetector, DEFAULT_AUDIO_DETECTOR_CONFIG } from './AudioDetector';
-export type { AudioDetectorConfig } from './AudioDetector';
+export { buildClickTrackUrl, parseClickTrackUrl, getManifestUrl, CLICK_TRACK_ROUTE } from './ClickTrackRoute';
+export type { ClickTrackFileType } from './ClickTrackRoute';
+
+export { analyzeLevelRamp, GAIN_STAGING_TARGET_PEAK_DB } from './GainStaging';
+export type { LevelRampAnalysis, LevelRampStep } from './GainStaging';
+
+export { decodeIndexCode, renderIndexCode, getIndexCodeDuration } from './ClickIndexCode';
+
+export { AudioDetector, createAudioDetector } from './AudioDetector';
+
+export {
+  ClickDetector,
+  createClickDetector,
+  DEFAULT_AUDIO_DETECTOR_CONFIG,
+  NEAR_ULTRASONIC_HIGH_PASS_HZ,
+  CAPTURE_BLOCK_SIZE,
+} from './ClickDetector';
+export type { AudioDetectorConfig, ClippingReport, NoiseProfile, ReferenceClick } from './ClickDetector';
+
+export { analyzeRecording, matchDetections, detectCodeClicks, calculateResult, getOnsetTime } from './ClickAnalysis';
+export type { RecordingAnalysis, RecordingAnalysisOptions, MatchedClick, ExpectedClick } from './ClickAnalysis';
+
+export { InputLatencyMeter, createInputLatencyMeter } from './InputLatency';
+
+export {
+  SPEED_OF_SOUND,
+  getAcousticDelayMs,
+  measureClickLevelDb,
+  estimateDistance,
+  createDistanceReference,
+} from './AcousticPath';
+export type { SpeakerDistance } from './AcousticPath';
 
 export { OffsetCalculator, offsetCalculator } from './OffsetCalculator';
-export type { OffsetResult } from './OffsetCalculator';
+export type {
+  OffsetResult,
+  OffsetStatistics,
+  ImpulseResponseResult,
+  SweepAnalysisResult,
+  CodeArrival,
+} from './OffsetCalculator';
+export type { CorrelationWeighting } from './fft';
+
+export { MicRecording } from './MicRecording';
+
+export {
+  CalibrationSession,
+  createCalibrationSession,
+  createSimultaneousCalibrationSession,
+  createListeningPositionSession,
+  SESSION_RECORDING_VERSION,
+} from './CalibrationSession';
+export type {
+  CalibrationEvent,
+  CalibrationEventType,
+  CalibrationTarget,
+  ClockSyncReport,
+  ListeningTurn,
+  SessionRecordingSidecar,
+} from './CalibrationSession';
 
-export { CalibrationSession, createCalibrationSession } from './CalibrationSession';
-export type { CalibrationEvent, CalibrationEventType } from './CalibrationSession';
+export {
+  WatermarkGenerator,
+  WatermarkDetector,
+  createWatermarkGenerator,
+  createWatermarkDetector,
+  DEFAULT_WATERMARK_CONFIG,
+} from './Watermark';
+export type { WatermarkConfig, WatermarkDetection } from './Watermark';
 
 export { ClockSynchronizer, clockSynchronizer } from './ClockSynchronizer';
 export type { ClockSyncStatus, TimeSyncMeasurement } from './ClockSynchronizer';
@@ -1,10 +1,83 @@
 import { useEffect, useRef, useState } from 'react';
 import { useCalibrationStore, usePlayersStore, useConnectionStore } from '../store';
-import { createCalibrationSession, CalibrationSession } from '../calibration';
+import {
+  createCalibrationSession,
+  createSimultaneousCalibrationSession,
+  createListeningPositionSession,
+  createInputLatencyMeter,
+  createDistanceReference,
+  CalibrationSession,
+} from '../calibration';
+import type {
+  CalibrationEvent,
+  CalibrationTarget,
+  ClippingReport,
+  NoiseProfile,
+  SessionRecordingSidecar,
+} from '../calibration';
 import { pushSyncOffsets } from '../sync-push';
 import type { PushResult } from '../sync-push';
 import type { CalibrationResult } from '../types';
 
+// Rise in background noise, in dB, that's worth warning about mid-run
+const NOISE_WARNING_DB = 6;
+
+// How long the overload warning stays up after the mic last clipped
+const CLIPPING_WARNING_MS = 2000;
+
+/**
+ * Largest rise of the background, overall or at any click frequency, over
+ * the quietest levels seen so far, along with the updated quietest levels
+ */
+function compareNoise(profile: NoiseProfile, quietest: NoiseProfile | null): { quietest: NoiseProfile; riseDb: number } {
+  // Start over when the band changes, e.g. after falling back to audible clicks
+  const sameBands =
+    quietest !== null &&
+    quietest.bands.length === profile.bands.length &&
+    quietest.bands.every((band, i) => band.frequency === profile.bands[i].frequency);
+  if (!sameBands) return { quietest: profile, riseDb: 0 };
+
+  const riseDb = (level: number, baseline: number) => 20 * Math.log10(Math.max(level, 1e-6) / Math.max(baseline, 1e-6));
+  return {
+    quietest: {
+      broadband: Math.min(profile.broadband, quietest.broadband),
+      bands: profile.bands.map((band, i) => ({ frequency: band.frequency, rms: Math.min(band.rms, quietest.bands[i].rms) })),
+      timestamp: profile.timestamp,
+    },
+    riseDb: Math.max(
+      riseDb(profile.broadband, quietest.broadband),
+      ...profile.bands.map((band, i) => riseDb(band.rms, quietest.bands[i].rms))
+    ),
+  };
+}
+
+/**
+ * Speaker distances typed in, in metres, leaving out blank or unusable entries
+ */
+function parseDistances(inputs: Record<string, string>): Record<string, number> {
+  const distances: Record<string, number> = {};
+  for (const [playerId, input] of Object.entries(inputs)) {
+    const distanceM = parseFloat(input);
+    if (Number.isFinite(distanceM) && distanceM > 0) {
+      distances[playerId] = distanceM;
+    }
+  }
+  return distances;
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked on the next tick, once the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
 export function CalibrationWizard() {
   const {
     phase,
@@ -16,14 +89,38 @@ export function CalibrationWizard() {
     results,
     setResult,
     updateOffset,
+    latencyProfiles,
+    setLatencyProfile,
+    distanceReferences,
+    setDistanceReference,
     setError,
   } = useCalibrationStore();
   const { players, selectedPlayerIds } = usePlayersStore();
   const { serverUrl, sendspinUrl } = useConnectionStore();
 
   const [audioLevel, setAudioLevel] = useState(0);
+  const [noiseRiseDb, setNoiseRiseDb] = useState(0);
+  const [clipping, setClipping] = useState<ClippingReport | null>(null);
   const [calibrationProgress, setCalibrationProgress] = useState({ detected: 0, total: 20 });
   const [playbackMethod, setPlaybackMethod] = useState<'music_assistant' | 'local' | null>(null);
+  const [trackStartMs, setTrackStartMs] = useState<number | null>(null);
+  const [simultaneous, setSimultaneous] = useState(false);
+  const [listeningPosition, setListeningPosition] = useState('Listening position');
+  const [turn, setTurn] = useState<{ target: CalibrationTarget; index: number; count: number } | null>(null);
+  const [quietMode, setQuietMode] = useState(false);
+  const [recordSession, setRecordSession] = useState(false);
+  const [distanceInputs, setDistanceInputs] = useState<Record<string, string>>({});
+  const [recording, setRecording] = useState<{ wav: Blob; sidecar: SessionRecordingSidecar } | null>(null);
+  const [bandStatus, setBandStatus] = useState<{ supported: boolean; reason?: string } | null>(null);
+  const [gainStatus, setGainStatus] = useState<{
+    stage: 'measuring' | 'measured' | 'skipped';
+    volume?: number;
+    previousVolume?: number;
+    clickPeakDb?: number;
+    clickSnrDb?: number;
+    clipped?: boolean;
+    reason?: string;
+  } | null>(null);
   const [clockSyncStatus, setClockSyncStatus] = useState<{
     attempted: boolean;
     syncing: boolean;
@@ -37,10 +134,13 @@ export function CalibrationWizard() {
     syncing: false,
     synced: false,
   });
+  const [latencyStatus, setLatencyStatus] = useState<{ measuring: boolean; error?: string }>({ measuring: false });
   const [isPushing, setIsPushing] = useState(false);
   const [pushResults, setPushResults] = useState<PushResult[] | null>(null);
   const sessionRef = useRef<CalibrationSession | null>(null);
   const animationRef = useRef<number>(0);
+  const quietestNoiseRef = useRef<NoiseProfile | null>(null);
+  const clippingTimerRef = useRef<number>(0);
 
   const selectedPlayers = players.filter((p) =>
     selectedPlayerIds.includes(p.player_id)
@@ -51,16 +151,28 @@ export function CalibrationWizard() {
     return () => {
       sessionRef.current?.stop();
       cancelAnimationFrame(animationRef.current);
+      clearTimeout(clippingTimerRef.current);
     };
   }, []);
 
-  // Audio level visualization loop
+  // Audio level visualization loop, which also watches the background noise
+  // once the clicks are playing (the level ramp before them would read as noise)
   useEffect(() => {
     if (phase !== 'listening') return;
 
+    quietestNoiseRef.current = null;
+    setNoiseRiseDb(0);
+
     const updateLevel = () => {
       if (sessionRef.current) {
         setAudioLevel(sessionRef.current.getCurrentLevel());
+
+        const profile = sessionRef.current.getNoiseProfile();
+        if (playbackMethod && profile) {
+          const { quietest, riseDb } = compareNoise(profile, quietestNoiseRef.current);
+          quietestNoiseRef.current = quietest;
+          setNoiseRiseDb(riseDb >= NOISE_WARNING_DB ? Math.round(riseDb) : 0);
+        }
       }
       animationRef.current = requestAnimationFrame(updateLevel);
     };
@@ -70,84 +182,217 @@ export function CalibrationWizard() {
     return () => {
       cancelAnimationFrame(animationRef.current);
     };
-  }, [phase]);
+  }, [phase, playbackMethod]);
 
-  const handleSelectSpeaker = async (playerId: string) => {
-    const player = players.find((p) => p.player_id === playerId);
-    if (!player) return;
+  const handleSessionEvent = (event: CalibrationEvent) => {
+    switch (event.type) {
+      case 'clock_syncing':
+        setClockSyncStatus({ attempted: true, syncing: true, synced: false });
+        break;
 
-    setCurrentPlayer(playerId);
+      case 'clock_synced': {
+        const data = event.data as {
+          success: boolean;
+          error?: string;
+          offsetMs: number | null;
+          uncertaintyMs: number | null;
+          measurements: number;
+        };
+        setClockSyncStatus({
+          attempted: true,
+          syncing: false,
+          synced: data.success,
+          error: data.error,
+          offsetMs: data.offsetMs ?? undefined,
+          uncertaintyMs: data.uncertaintyMs ?? undefined,
+          measurements: data.measurements,
+        });
+        break;
+      }
+
+      case 'band_check': {
+        const data = event.data as { supported: boolean; reason?: string };
+        setBandStatus(data);
+        if (!data.supported) {
+          clearDetections();
+        }
+        break;
+      }
+
+      case 'turn_started':
+        // The next speaker starts over: its own level, playback and clicks
+        setTurn(event.data as NonNullable<typeof turn>);
+        clearDetections();
+        setPlaybackMethod(null);
+        setTrackStartMs(null);
+        setGainStatus(null);
+        setCalibrationProgress((progress) => ({ ...progress, detected: 0 }));
+        break;
+
+      case 'gain_staging':
+        setGainStatus(event.data as NonNullable<typeof gainStatus>);
+        break;
+
+      case 'playback_started': {
+        const data = event.data as { method: 'music_assistant' | 'local'; url: string };
+        setPlaybackMethod(data.method);
+        setTrackStartMs(null);
+        break;
+      }
+
+      case 'preamble_detected':
+        setTrackStartMs((event.data as { timestamp: number }).timestamp);
+        break;
+
+      case 'click_detected':
+        addClickDetection(event.data as Parameters<typeof addClickDetection>[0]);
+        break;
+
+      case 'clipping':
+        setClipping(event.data as ClippingReport);
+        clearTimeout(clippingTimerRef.current);
+        clippingTimerRef.current = window.setTimeout(() => setClipping(null), CLIPPING_WARNING_MS);
+        break;
+
+      case 'progress':
+        setCalibrationProgress(event.data as { detected: number; total: number });
+        break;
+
+      case 'player_result':
+        saveResult(event.data as CalibrationResult);
+        break;
+
+      case 'completed': {
+        // Simultaneous sessions deliver each result through 'player_result'
+        if (!Array.isArray(event.data)) {
+          saveResult(event.data as CalibrationResult);
+        }
+        setRecording(sessionRef.current?.getRecording() ?? null);
+        setPhase('results');
+        break;
+      }
+
+      case 'error':
+        setError(event.data as string);
+        setPhase('instructions');
+        break;
+    }
+  };
+
+  // A run at an entered distance becomes the player's reference for estimating later ones
+  const saveResult = (result: CalibrationResult) => {
+    setResult(result.playerId, result);
+
+    const reference = createDistanceReference(result);
+    if (reference) {
+      setDistanceReference(reference);
+    }
+  };
+
+  const startSession = async (session: CalibrationSession) => {
     clearDetections();
     setPlaybackMethod(null);
+    setTrackStartMs(null);
+    setBandStatus(null);
+    setGainStatus(null);
+    setClipping(null);
+    setRecording(null);
+    setTurn(null);
     setClockSyncStatus({ attempted: false, syncing: false, synced: false });
     setPhase('listening');
+    sessionRef.current = session;
+
+    try {
+      await session.start(handleSessionEvent);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed');
+      setPhase('instructions');
+    }
+  };
+
+  const handleSelectSpeaker = async (playerId: string) => {
+    const player = players.find((p) => p.player_id === playerId);
+    if (!player) return;
+
+    setCurrentPlayer(playerId);
+    setSimultaneous(false);
 
     // Create and start calibration session
     // Use sendspinUrl for clock sync if provided, otherwise use serverUrl
     const clockSyncUrl = sendspinUrl || serverUrl;
-    const session = createCalibrationSession(playerId, player.name, clockSyncUrl);
-    sessionRef.current = session;
+    await startSession(
+      createCalibrationSession(playerId, player.name, clockSyncUrl, {
+        nearUltrasonic: quietMode,
+        inputLatencyProfiles: latencyProfiles,
+        recordSession,
+        speakerDistances: parseDistances(distanceInputs),
+        distanceReferences,
+      })
+    );
+  };
+
+  const handleCalibrateAll = async () => {
+    setCurrentPlayer(null);
+    setSimultaneous(true);
+
+    const clockSyncUrl = sendspinUrl || serverUrl;
+    const targets = selectedPlayers.map((p) => ({ playerId: p.player_id, playerName: p.name }));
 
     try {
-      await session.start((event) => {
-        switch (event.type) {
-          case 'clock_syncing':
-            setClockSyncStatus({ attempted: true, syncing: true, synced: false });
-            break;
-
-          case 'clock_synced': {
-            const data = event.data as {
-              success: boolean;
-              error?: string;
-              offsetMs: number | null;
-              uncertaintyMs: number | null;
-              measurements: number;
-            };
-            setClockSyncStatus({
-              attempted: true,
-              syncing: false,
-              synced: data.success,
-              error: data.error,
-              offsetMs: data.offsetMs ?? undefined,
-              uncertaintyMs: data.uncertaintyMs ?? undefined,
-              measurements: data.measurements,
-            });
-            break;
-          }
-
-          case 'playback_started': {
-            const data = event.data as { method: 'music_assistant' | 'local'; url: string };
-            setPlaybackMethod(data.method);
-            break;
-          }
-
-          case 'click_detected':
-            addClickDetection(event.data as Parameters<typeof addClickDetection>[0]);
-            break;
-
-          case 'progress':
-            setCalibrationProgress(event.data as { detected: number; total: number });
-            break;
-
-          case 'completed': {
-            const result = event.data as CalibrationResult;
-            setResult(playerId, result);
-            setPhase('results');
-            break;
-          }
-
-          case 'error':
-            setError(event.data as string);
-            setPhase('instructions');
-            break;
-        }
-      });
+      await startSession(
+        createSimultaneousCalibrationSession(targets, clockSyncUrl, {
+          inputLatencyProfiles: latencyProfiles,
+          recordSession,
+          speakerDistances: parseDistances(distanceInputs),
+          distanceReferences,
+        })
+      );
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Calibration failed');
       setPhase('instructions');
     }
   };
 
+  const handleCalibrateFromPosition = async () => {
+    const position = listeningPosition.trim();
+    if (!position) return;
+
+    setCurrentPlayer(null);
+    setSimultaneous(false);
+
+    const clockSyncUrl = sendspinUrl || serverUrl;
+    const targets = selectedPlayers.map((p) => ({ playerId: p.player_id, playerName: p.name }));
+
+    await startSession(
+      createListeningPositionSession(targets, position, clockSyncUrl, {
+        nearUltrasonic: quietMode,
+        inputLatencyProfiles: latencyProfiles,
+        recordSession,
+      })
+    );
+  };
+
+  const handleMeasureLatency = async () => {
+    setLatencyStatus({ measuring: true });
+
+    try {
+      setLatencyProfile(await createInputLatencyMeter().measure());
+      setLatencyStatus({ measuring: false });
+    } catch (err) {
+      setLatencyStatus({ measuring: false, error: err instanceof Error ? err.message : 'Latency measurement failed' });
+    }
+  };
+
+  const handleDownloadRecording = () => {
+    if (!recording) return;
+
+    const { sidecar } = recording;
+    const name = sidecar.targets.length > 1 ? 'all' : sidecar.targets[0].playerName.replace(/[^\w-]+/g, '-');
+    const baseName = `groupsync-${name}-${sidecar.recordedAt.replace(/[:.]/g, '-')}`;
+    downloadBlob(recording.wav, `${baseName}.wav`);
+    downloadBlob(new Blob([JSON.stringify(sidecar, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+  };
+
   const handleCancelCalibration = () => {
     sessionRef.current?.stop();
     sessionRef.current = null;
@@ -218,12 +463,147 @@ export function CalibrationWizard() {
           <div className="p-4 bg-blue-900/20 border border-blue-700/50 rounded-lg text-blue-300 text-sm">
             <p className="font-medium mb-1">Important</p>
             <ul className="list-disc list-inside text-blue-300/70 space-y-1">
-              <li>Hold your phone 1-2 feet from the speaker</li>
+              <li>Hold your phone 1-2 feet from the speaker, or enter how far away it is below</li>
               <li>Keep the room quiet during calibration</li>
               <li>The process takes about 20 seconds per speaker</li>
             </ul>
           </div>
 
+          <label className="flex items-center gap-3 p-3 bg-surface rounded-lg text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={quietMode}
+              onChange={(e) => setQuietMode(e.target.checked)}
+              className="w-4 h-4 accent-primary"
+            />
+            <span className="flex-1">
+              <span className="font-medium">Quiet mode</span>
+              <span className="block text-xs text-text-muted">
+                Near-ultrasonic clicks most people can barely hear. Falls back to audible clicks
+                if your phone or speaker can't reproduce them.
+              </span>
+            </span>
+          </label>
+
+          <label className="flex items-center gap-3 p-3 bg-surface rounded-lg text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={recordSession}
+              onChange={(e) => setRecordSession(e.target.checked)}
+              className="w-4 h-4 accent-primary"
+            />
+            <span className="flex-1">
+              <span className="font-medium">Keep a recording</span>
+              <span className="block text-xs text-text-muted">
+                Records everything the mic hears during calibration, to download afterwards as a WAV
+                with the detections alongside. Useful for reporting a calibration that went wrong.
+              </span>
+            </span>
+          </label>
+
+          {/* Phone mic latency, measured once per mic and taken off every offset */}
+          <div className="p-3 bg-surface rounded-lg text-sm space-y-2">
+            <div className="flex items-center gap-3">
+              <span className="flex-1">
+                <span className="font-medium">Phone mic latency</span>
+                <span className="block text-xs text-text-muted">
+                  Plays a few clicks from this phone's speaker to time its own mic, so offsets
+                  from different phones agree. Turn the phone volume up first.
+                </span>
+              </span>
+              <button
+                onClick={handleMeasureLatency}
+                disabled={latencyStatus.measuring}
+                className="py-2 px-3 bg-gray-700 hover:bg-gray-600 disabled:opacity-50
+                           rounded-lg text-xs font-medium transition-colors"
+              >
+                {latencyStatus.measuring ? 'Measuring...' : 'Measure'}
+              </button>
+            </div>
+            {Object.values(latencyProfiles).map((profile) => (
+              <div key={profile.deviceId} className="flex justify-between text-xs text-text-muted">
+                <span>{profile.deviceLabel || 'Default microphone'}</span>
+                <span className="font-mono">
+                  {profile.inputLatencyMs.toFixed(1)} ms ±{profile.spreadMs.toFixed(1)}
+                </span>
+              </div>
+            ))}
+            {latencyStatus.error && <div className="text-xs text-yellow-300">{latencyStatus.error}</div>}
+          </div>
+
+          {/* Speaker distances, whose travel time is taken off each offset */}
+          <div className="p-3 bg-surface rounded-lg text-sm space-y-2">
+            <span className="block">
+              <span className="font-medium">Distance to each speaker</span>
+              <span className="block text-xs text-text-muted">
+                Sound takes about 2.9 ms per metre to reach the phone. Enter how far away you'll hold
+                it to take that off. Left blank, it's estimated from how loud the clicks arrive once
+                the speaker has been calibrated at a known distance.
+              </span>
+            </span>
+            {selectedPlayers.map((player) => (
+              <label key={player.player_id} className="flex items-center gap-3 text-xs">
+                <span className="flex-1">{player.name}</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="0.1"
+                  placeholder={distanceReferences[player.player_id] ? 'estimate' : 'none'}
+                  value={distanceInputs[player.player_id] ?? ''}
+                  onChange={(e) => setDistanceInputs({ ...distanceInputs, [player.player_id]: e.target.value })}
+                  className="w-20 px-2 py-1 bg-gray-700 rounded text-right font-mono"
+                />
+                <span className="text-text-muted">m</span>
+              </label>
+            ))}
+          </div>
+
+          {selectedPlayers.length > 1 && (
+            <div className="space-y-2">
+              <button
+                onClick={handleCalibrateAll}
+                className="w-full py-3 px-4 bg-primary hover:bg-primary-dark
+                           rounded-lg font-medium transition-colors"
+              >
+                Calibrate All {selectedPlayers.length} Speakers at Once
+              </button>
+              <p className="text-xs text-text-muted text-center">
+                Every speaker plays its own code together. Stand where you can hear them all.
+              </p>
+            </div>
+          )}
+
+          {/* Listening position: the phone stays put and the speakers play in turn */}
+          {selectedPlayers.length > 1 && (
+            <div className="p-3 bg-surface rounded-lg text-sm space-y-2">
+              <span className="block">
+                <span className="font-medium">Calibrate from your listening position</span>
+                <span className="block text-xs text-text-muted">
+                  Leave the phone where you listen and each speaker plays in turn. The offsets make
+                  sound from every speaker arrive there together, so distances aren't taken off.
+                </span>
+              </span>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={listeningPosition}
+                  onChange={(e) => setListeningPosition(e.target.value)}
+                  placeholder="e.g. Sofa"
+                  className="flex-1 px-3 py-2 bg-gray-700 rounded-lg text-sm"
+                />
+                <button
+                  onClick={handleCalibrateFromPosition}
+                  disabled={!listeningPosition.trim()}
+                  className="py-2 px-3 bg-primary hover:bg-primary-dark disabled:opacity-50
+                             rounded-lg text-sm font-medium transition-colors"
+                >
+                  Start
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-3">
             <h3 className="font-medium">Select the speaker you're standing near:</h3>
             {selectedPlayers.map((player) => (
@@ -239,6 +619,8 @@ export function CalibrationWizard() {
                   {results[player.player_id] && (
                     <div className="text-sm text-secondary">
                       Calibrated: {results[player.player_id].offsetMs.toFixed(1)}ms
+                      {results[player.player_id].referencePosition &&
+                        ` from ${results[player.player_id].referencePosition}`}
                     </div>
                   )}
                 </div>
@@ -280,6 +662,10 @@ export function CalibrationWizard() {
             <p className="text-text-muted">
               {clockSyncStatus.syncing
                 ? 'Synchronizing with server for accurate timing'
+                : turn
+                ? `Leave your phone at ${listeningPosition.trim()}. ${turn.target.playerName} is playing (${turn.index + 1} of ${turn.count}).`
+                : simultaneous
+                ? 'Hold your phone steady. All speakers are playing.'
                 : 'Hold your phone steady near the speaker.'}
             </p>
           </div>
@@ -316,6 +702,57 @@ export function CalibrationWizard() {
             </div>
           )}
 
+          {/* Near-ultrasonic band check */}
+          {bandStatus && (
+            <div className={`p-3 rounded-lg text-sm text-center ${
+              bandStatus.supported
+                ? 'bg-green-900/20 border border-green-700/50 text-green-300'
+                : 'bg-yellow-900/20 border border-yellow-700/50 text-yellow-300'
+            }`}>
+              {bandStatus.supported ? (
+                <>Quiet mode: near-ultrasonic clicks detected</>
+              ) : (
+                <div className="space-y-1">
+                  <div>Quiet mode unavailable, using audible clicks</div>
+                  {bandStatus.reason && <div className="text-xs opacity-75">{bandStatus.reason}</div>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Player volume set from the level ramp */}
+          {gainStatus && (
+            <div className={`p-3 rounded-lg text-sm text-center ${
+              gainStatus.stage === 'skipped'
+                ? 'bg-yellow-900/20 border border-yellow-700/50 text-yellow-300'
+                : 'bg-blue-900/20 border border-blue-700/50 text-blue-300'
+            }`}>
+              {gainStatus.stage === 'measuring' ? (
+                <span className="flex items-center justify-center gap-2">
+                  <div className="w-4 h-4 border-2 border-blue-300 border-t-transparent rounded-full animate-spin" />
+                  Setting speaker level...
+                </span>
+              ) : gainStatus.stage === 'measured' ? (
+                <div className="space-y-1">
+                  <div>
+                    {gainStatus.volume === gainStatus.previousVolume
+                      ? `Speaker level OK at volume ${gainStatus.volume}`
+                      : `Speaker volume set to ${gainStatus.volume} (was ${gainStatus.previousVolume})`}
+                  </div>
+                  <div className="text-xs opacity-75">
+                    {gainStatus.clipped ? 'Mic overloaded at full level. ' : ''}
+                    {gainStatus.clickSnrDb?.toFixed(0)} dB above background noise
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  <div>Speaker level not adjusted</div>
+                  {gainStatus.reason && <div className="text-xs opacity-75">{gainStatus.reason}</div>}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Playback status indicator */}
           {playbackMethod && (
             <div className={`p-3 rounded-lg text-sm text-center ${
@@ -328,6 +765,31 @@ export function CalibrationWizard() {
               ) : (
                 <>Playing through phone speaker (MA playback failed)</>
               )}
+              {trackStartMs !== null && (
+                <div className="text-xs opacity-75">Track start heard at {(trackStartMs / 1000).toFixed(2)}s</div>
+              )}
+            </div>
+          )}
+
+          {/* Mic overloading right now */}
+          {clipping && (
+            <div className="p-3 rounded-lg text-sm text-center bg-red-900/20 border border-red-700/50 text-red-300">
+              <div>Microphone overloaded</div>
+              <div className="text-xs opacity-75">
+                {simultaneous || playbackMethod === 'local'
+                  ? 'Move the phone further away from the speakers.'
+                  : 'Lower the speaker volume, or move the phone further away.'}
+              </div>
+            </div>
+          )}
+
+          {/* Background noise rising mid-run */}
+          {noiseRiseDb > 0 && (
+            <div className="p-3 rounded-lg text-sm text-center bg-yellow-900/20 border border-yellow-700/50 text-yellow-300">
+              <div>Background noise has risen {noiseRiseDb} dB since the clicks started</div>
+              <div className="text-xs opacity-75">
+                Clicks may be missed. Turn off fans or other noise sources, or move closer to the speaker.
+              </div>
             </div>
           )}
 
@@ -350,18 +812,29 @@ export function CalibrationWizard() {
               <div
                 key={i}
                 className={`w-4 h-4 rounded-full transition-colors ${
-                  i < detectedClicks.length ? 'bg-secondary' : 'bg-gray-600'
+                  i >= detectedClicks.length
+                    ? 'bg-gray-600'
+                    : detectedClicks[i].clipped
+                    ? 'bg-yellow-500'
+                    : 'bg-secondary'
                 }`}
               />
             ))}
           </div>
+          {detectedClicks.some((detection) => detection.clipped) && (
+            <p className="text-xs text-yellow-300 text-center">
+              Yellow clicks overloaded the mic and count with low confidence
+            </p>
+          )}
 
           <div className="text-center">
             <p className="text-lg font-medium">
               {calibrationProgress.detected} of {calibrationProgress.total} clicks detected
             </p>
             <p className="text-text-muted text-sm mt-1">
-              {calibrationProgress.detected === 0
+              {simultaneous
+                ? 'Speakers are separated once the recording ends'
+                : calibrationProgress.detected === 0
                 ? 'Waiting for audio...'
                 : calibrationProgress.detected < 10
                 ? 'Keep holding steady...'
@@ -398,6 +871,13 @@ export function CalibrationWizard() {
             </p>
           </div>
 
+          {new Set(Object.values(results).map((result) => result.referencePosition ?? null)).size > 1 && (
+            <div className="p-3 bg-yellow-900/20 border border-yellow-700/50 rounded-lg text-yellow-300 text-sm text-center">
+              These offsets were measured from different positions and won't line up with each other.
+              Recalibrate the speakers from one position.
+            </div>
+          )}
+
           {Object.keys(results).length === 0 ? (
             <div className="p-4 bg-yellow-900/20 border border-yellow-700/50 rounded-lg text-yellow-300 text-sm text-center">
               No calibration results yet. Go back and calibrate some speakers.
@@ -407,11 +887,18 @@ export function CalibrationWizard() {
               {Object.entries(results).map(([playerId, result]) => (
                 <div key={playerId} className="p-4 bg-surface rounded-lg">
                   <div className="flex justify-between mb-2">
-                    <span className="font-medium">{result.playerName}</span>
+                    <span className="font-medium">
+                      {result.playerName}
+                      <span className="block text-xs font-normal text-text-muted">
+                        {result.referencePosition ? `From ${result.referencePosition}` : 'At the speaker'}
+                      </span>
+                    </span>
                     <span className={`font-mono ${
                       result.offsetMs > 0 ? 'text-blue-400' : result.offsetMs < 0 ? 'text-orange-400' : 'text-secondary'
                     }`}>
                       {result.offsetMs > 0 ? '+' : ''}{result.offsetMs.toFixed(1)} ms
+                      {result.offsetIntervalMs &&
+                        ` ± ${((result.offsetIntervalMs[1] - result.offsetIntervalMs[0]) / 2).toFixed(1)} ms`}
                     </span>
                   </div>
                   <input
@@ -431,14 +918,38 @@ export function CalibrationWizard() {
                     <span>+100ms (later)</span>
                   </div>
                   <div className="flex justify-between text-xs text-text-muted mt-2">
-                    <span>Confidence: {Math.round(result.confidence * 100)}%</span>
-                    <span>{result.detectedClicks}/{result.totalClicks} clicks</span>
+                    <span>
+                      Confidence: {Math.round(result.confidence * 100)}%
+                      {result.inputLatencyMs ? `, mic latency ${result.inputLatencyMs.toFixed(1)} ms removed` : ''}
+                      {result.rejectedClicks ? `, ${result.rejectedClicks} outlying clicks left out` : ''}
+                      {result.acousticDelayMs !== undefined && result.distanceM !== undefined && (
+                        <span className="block">
+                          Travel time {result.acousticDelayMs.toFixed(1)} ms removed
+                          ({result.distanceSource === 'estimated' ? '~' : ''}{result.distanceM.toFixed(1)} m
+                          {result.distanceSource === 'estimated' ? ', estimated' : ''}), measured{' '}
+                          {result.rawOffsetMs !== undefined && `${result.rawOffsetMs.toFixed(1)} ms`}
+                        </span>
+                      )}
+                    </span>
+                    <span>
+                      {result.detectedClicks}/{result.totalClicks} clicks
+                      {result.band === 'near_ultrasonic' && ' (quiet mode)'}
+                    </span>
                   </div>
                 </div>
               ))}
             </div>
           )}
 
+          {recording && (
+            <button
+              onClick={handleDownloadRecording}
+              className="w-full py-2 px-4 bg-surface hover:bg-gray-700 rounded-lg text-sm transition-colors"
+            >
+              Download recording ({(recording.sidecar.duration / 1000).toFixed(0)} s)
+            </button>
+          )}
+
           {/* Push Results */}
           {pushResults && (
             <div className="space-y-2">
@@ -1,12 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { CalibrationPhase, CalibrationResult, ClickDetection } from '../types';
+import type {
+  CalibrationPhase,
+  CalibrationResult,
+  ClickDetection,
+  DistanceReference,
+  InputLatencyProfile,
+} from '../types';
 
 interface CalibrationState {
   phase: CalibrationPhase;
   currentPlayerId: string | null;
   detectedClicks: ClickDetection[];
   results: Record<string, CalibrationResult>;
+  latencyProfiles: Record<string, InputLatencyProfile>; // By mic device id
+  distanceReferences: Record<string, DistanceReference>; // By player id
   error: string | null;
 }
 
@@ -17,6 +25,8 @@ interface CalibrationActions {
   clearDetections: () => void;
   setResult: (playerId: string, result: CalibrationResult) => void;
   updateOffset: (playerId: string, offsetMs: number) => void;
+  setLatencyProfile: (profile: InputLatencyProfile) => void;
+  setDistanceReference: (reference: DistanceReference) => void;
   setError: (error: string | null) => void;
   reset: () => void;
   clearResults: () => void;
@@ -27,6 +37,8 @@ const initialState: CalibrationState = {
   currentPlayerId: null,
   detectedClicks: [],
   results: {},
+  latencyProfiles: {},
+  distanceReferences: {},
   error: null,
 };
 
@@ -55,18 +67,41 @@ export const useCalibrationStore = create<CalibrationState & CalibrationActions>
         const { results } = get();
         const existing = results[playerId];
         if (existing) {
+          // The interval moves with the offset, keeping its width
+          const shift = offsetMs - existing.offsetMs;
+          const interval = existing.offsetIntervalMs;
+          const updated: CalibrationResult = { ...existing, offsetMs };
+          if (interval) {
+            updated.offsetIntervalMs = [interval[0] + shift, interval[1] + shift];
+          }
           set({
             results: {
               ...results,
-              [playerId]: { ...existing, offsetMs },
+              [playerId]: updated,
             },
           });
         }
       },
 
+      setLatencyProfile: (profile) => {
+        const { latencyProfiles } = get();
+        set({ latencyProfiles: { ...latencyProfiles, [profile.deviceId]: profile } });
+      },
+
+      setDistanceReference: (reference) => {
+        const { distanceReferences } = get();
+        set({ distanceReferences: { ...distanceReferences, [reference.playerId]: reference } });
+      },
+
       setError: (error) => set({ error }),
 
-      reset: () => set({ ...initialState, results: get().results }),
+      reset: () =>
+        set({
+          ...initialState,
+          results: get().results,
+          latencyProfiles: get().latencyProfiles,
+          distanceReferences: get().distanceReferences,
+        }),
 
       clearResults: () => set({ results: {} }),
     }),
@@ -74,6 +109,8 @@ export const useCalibrationStore = create<CalibrationState & CalibrationActions>
       name: 'groupsync-calibration',
       partialize: (state) => ({
         results: state.results,
+        latencyProfiles: state.latencyProfiles,
+        distanceReferences: state.distanceReferences,
       }),
     }
   )
@@ -11,20 +11,69 @@ export type CalibrationPhase =
   | 'calculating'
   | 'results';
 
+// Frequency band the calibration clicks were played in
+export type ProbeBand = 'audible' | 'near_ultrasonic';
+
 export interface ClickDetection {
   timestamp: number;      // When click was detected (ms)
   frequency: number;      // Detected frequency (Hz)
   confidence: number;     // Detection confidence (0-1)
-  sampleOffset: number;   // Sample offset from expected
+  sampleOffset: number;   // Click start in samples from timestamp, sub-sample (0 if not refined)
+  firstArrivalOffset?: number; // Leading edge of the direct sound in samples from timestamp
+  energyPeakOffset?: number;   // Click start of the strongest arrival in samples from timestamp
+  playerId?: string;      // Player the detection belongs to (simultaneous calibration)
+  clickIndex?: number;    // Click sequence number decoded from its index code
+  bandConfidences?: { frequency: number; confidence: number }[]; // Per expected frequency, share of energy over its local background
+  clipped?: boolean;      // Mic overloaded while the click was captured, so its timing is suspect
+  level?: number;         // RMS of the click as received, less the background (0-1, set once refined)
 }
 
 export interface CalibrationResult {
   playerId: string;
   playerName: string;
   offsetMs: number;
+  offsetIntervalMs?: [number, number]; // 95% interval of offsetMs, from bootstrapping the click offsets
   confidence: number;
   detectedClicks: number;
   totalClicks: number;
+  rejectedClicks?: number;  // Detections left out of the offset as outliers
+  band?: ProbeBand;         // Band used, 'audible' if near-ultrasonic wasn't reproduced
+  inputLatencyMs?: number;  // Phone mic latency already taken off offsetMs
+  rawOffsetMs?: number;     // Offset before the acoustic delay was taken off (mic latency already is)
+  acousticDelayMs?: number; // Speaker-to-phone travel time taken off offsetMs
+  distanceM?: number;       // Speaker-to-phone distance the delay was worked out from
+  distanceSource?: 'entered' | 'estimated'; // Distance given for the run, or estimated from the click level
+  clickLevelDb?: number;    // Median received click level in dBFS
+  playerVolume?: number;    // Player volume the clicks played at
+  referencePosition?: string; // Listening position the offset was measured from, unset when measured at the speaker
+}
+
+/**
+ * Click level heard from one speaker at a known distance and volume. Later
+ * runs without a distance estimate theirs from how far the level has dropped.
+ */
+export interface DistanceReference {
+  playerId: string;
+  band: ProbeBand;     // Band the level was measured in; levels only compare within a band
+  distanceM: number;   // Speaker-to-phone distance entered for the run
+  levelDb: number;     // Median received click level in dBFS
+  volume: number;      // Player volume the clicks played at
+  measuredAt: number;  // Unix time in ms
+}
+
+/**
+ * Mic latency of one input device, measured by playing clicks from the
+ * phone's own speaker back into its mic
+ */
+export interface InputLatencyProfile {
+  deviceId: string;        // Mic device id, the key profiles are stored under
+  deviceLabel: string;     // Mic name as the browser reports it
+  inputLatencyMs: number;  // Round trip less the output latency
+  roundTripMs: number;     // Median time from a click's scheduled start to its detected onset
+  outputLatencyMs: number; // AudioContext baseLatency plus outputLatency when measured
+  spreadMs: number;        // Median absolute deviation of the round trips
+  clicks: number;          // Clicks heard
+  measuredAt: number;      // Unix time in ms
 }
 
 export interface CalibrationState {
@@ -40,6 +89,15 @@ export interface CalibrationConfig {
   totalClicks: number;        // Number of clicks in track (default: 20)
   frequencies: number[];      // Click frequencies (default: [1000, 2000, 4000, 8000])
   sampleRate: number;         // Audio sample rate (default: 48000)
+  encodeClickIndex: boolean;  // Clicks carry their index as a two-tone code (default: true)
+  nearUltrasonic: boolean;    // Try 17-20 kHz clicks first, falling back to audible (default: false)
+  preamble: boolean;          // Track opens with a chirp that anchors the click schedule (default: true)
+  gainStaging: boolean;       // Set the player volume from a level ramp before calibrating (default: true)
+  inputLatencyProfiles: Record<string, InputLatencyProfile>; // Mic latencies by device id, the mic in use has its taken off every offset (default: none)
+  recordSession: boolean;     // Keep the whole mic capture for download with its detections (default: false)
+  speakerDistances: Record<string, number>; // Speaker-to-phone metres by player id, their travel time is taken off each offset (default: none)
+  distanceReferences: Record<string, DistanceReference>; // By player id, to estimate distances not given (default: none)
+  listeningPosition: string | null; // Where the phone stays while each player plays in turn, null to calibrate at each speaker (default: null)
 }
 
 export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
@@ -48,4 +106,13 @@ export const DEFAULT_CALIBRATION_CONFIG: CalibrationConfig = {
   // Frequencies optimized for smartphone mic sensitivity (sweet spots: 500, 1k, 2k, 3k Hz)
   frequencies: [500, 1000, 2000, 3000],
   sampleRate: 48000,
+  encodeClickIndex: true,
+  nearUltrasonic: false,
+  preamble: true,
+  gainStaging: true,
+  inputLatencyProfiles: {},
+  recordSession: false,
+  speakerDistances: {},
+  distanceReferences: {},
+  listeningPosition: null,
 };
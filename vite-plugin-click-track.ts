@@ -0,0 +1,70 @@
+/**
+ * Vite plugin serving click tracks rendered on demand by ClickTrackGenerator,
+ * on both the dev server and `vite preview`. Music Assistant fetches the
+ * track itself, so it has to come from the server rather than the browser.
+ * A .json request returns the track's timing manifest instead.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http'
+import type { Connect, Plugin } from 'vite'
+import { ClickTrackGenerator } from './src/calibration/ClickTrackGenerator'
+import { parseClickTrackUrl } from './src/calibration/ClickTrackRoute'
+
+async function handleClickTrackRequest(req: IncomingMessage, res: ServerResponse, next: Connect.NextFunction) {
+  let request
+  try {
+    request = parseClickTrackUrl(req.url ?? '/')
+  } catch (error) {
+    res.statusCode = 400
+    res.end(error instanceof Error ? error.message : String(error))
+    return
+  }
+  if (!request) {
+    next()
+    return
+  }
+
+  try {
+    const generator = new ClickTrackGenerator(request.config)
+    if (request.fileType === 'json') {
+      const body = JSON.stringify(generator.getManifest())
+      res.setHeader('Content-Type', 'application/json')
+      res.setHeader('Content-Length', Buffer.byteLength(body))
+      res.end(req.method === 'HEAD' ? undefined : body)
+      return
+    }
+
+    // HEAD only checks the track exists, so answer it without rendering.
+    // A FLAC file's size is only known once encoded, so it goes without a length.
+    if (req.method === 'HEAD') {
+      res.setHeader('Content-Type', request.fileType === 'flac' ? 'audio/flac' : 'audio/wav')
+      if (request.fileType === 'wav') {
+        res.setHeader('Content-Length', generator.getWavFileSize())
+      }
+      res.end()
+      return
+    }
+
+    const blob = request.fileType === 'flac' ? generator.generateFlacBlob() : generator.generateWavBlob()
+    const body = Buffer.from(await blob.arrayBuffer())
+
+    res.setHeader('Content-Type', blob.type)
+    res.setHeader('Content-Length', body.length)
+    res.end(body)
+  } catch (error) {
+    res.statusCode = 400
+    res.end(error instanceof Error ? error.message : String(error))
+  }
+}
+
+export function clickTrackPlugin(): Plugin {
+  return {
+    name: 'groupsync-click-track',
+    configureServer(server) {
+      server.middlewares.use(handleClickTrackRequest)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handleClickTrackRequest)
+    },
+  }
+}